@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+
+import { authenticate, startSession } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+
+export async function POST(request: Request) {
+  try {
+    const { email, password } = await readJsonBody(request)
+    if (!email || !password) {
+      return NextResponse.json({ error: "Please enter valid credentials" }, { status: 400 })
+    }
+
+    const user = await authenticate(String(email), String(password))
+    await startSession(user)
+    return NextResponse.json(user)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+
+import { parseRegistration, registerUser, startSession } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+
+export async function POST(request: Request) {
+  try {
+    const user = await registerUser(parseRegistration(await readJsonBody(request)))
+    await startSession(user)
+    return NextResponse.json(user, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,16 @@
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+
+import { getCurrentUser, SESSION_COOKIE } from "@/lib/auth"
+
+export async function GET() {
+  const user = await getCurrentUser()
+  if (!user) {
+    // Clear a stale cookie so the middleware stops treating this browser as logged in
+    const cookieStore = await cookies()
+    cookieStore.delete(SESSION_COOKIE)
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 })
+  }
+
+  return NextResponse.json(user)
+}
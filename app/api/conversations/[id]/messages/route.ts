@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { sendMessage } from "@/lib/messages"
+
+type Context = { params: Promise<{ id: string }> }
+
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { body } = await readJsonBody(request)
+    return NextResponse.json(await sendMessage(user, Number(id), String(body ?? "")), { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
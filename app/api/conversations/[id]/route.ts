@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse } from "@/lib/http"
+import { openConversation } from "@/lib/messages"
+
+type Context = { params: Promise<{ id: string }> }
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    return NextResponse.json(await openConversation(user, Number(id)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { listConversations, startConversation } from "@/lib/messages"
+
+export async function GET() {
+  try {
+    const user = await requireUser()
+    return NextResponse.json(await listConversations(user))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser()
+    const { roomId } = await readJsonBody(request)
+    return NextResponse.json(await startConversation(user, Number(roomId)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
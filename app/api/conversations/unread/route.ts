@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse } from "@/lib/http"
+import { countUnreadMessages } from "@/lib/messages"
+
+export async function GET() {
+  try {
+    const user = await requireUser()
+    return NextResponse.json({ count: await countUnreadMessages(user) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { publishDraft } from "@/lib/drafts"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { toPublicRoom } from "@/lib/rooms"
+
+type Context = { params: Promise<{ id: string }> }
+
+// Publishes the wizard's final values as a listing and removes the draft
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const room = await publishDraft(user, Number(id), await readJsonBody(request))
+    return NextResponse.json(toPublicRoom(room, user), { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
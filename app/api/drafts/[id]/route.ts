@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { deleteDraft, getDraft, saveDraft } from "@/lib/drafts"
+import { errorResponse, readJsonBody } from "@/lib/http"
+
+type Context = { params: Promise<{ id: string }> }
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    return NextResponse.json(await getDraft(user, Number(id)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Autosave from the listing wizard
+export async function PUT(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { values, step } = await readJsonBody(request)
+    return NextResponse.json(await saveDraft(user, Number(id), values, step))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    await deleteDraft(user, Number(id))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
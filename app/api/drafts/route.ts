@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { createDraft, listDrafts } from "@/lib/drafts"
+import { errorResponse, readJsonBody } from "@/lib/http"
+
+// The logged-in owner's unfinished listings, most recently edited first
+export async function GET() {
+  try {
+    const user = await requireUser()
+    return NextResponse.json(await listDrafts(user))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser()
+    const { values, step } = await readJsonBody(request)
+    return NextResponse.json(await createDraft(user, values, step), { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
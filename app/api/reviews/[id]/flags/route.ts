@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { flagReview } from "@/lib/reviews"
+
+type Context = { params: Promise<{ id: string }> }
+
+// Reports a review to the moderators
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { reason } = await readJsonBody(request)
+    await flagReview(user, Number(id), String(reason ?? ""))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
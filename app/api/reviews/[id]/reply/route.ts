@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { replyToReview } from "@/lib/reviews"
+
+type Context = { params: Promise<{ id: string }> }
+
+// The room owner's public reply to a review
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { text } = await readJsonBody(request)
+    const review = await replyToReview(user, Number(id), String(text ?? ""))
+    return NextResponse.json(review, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { moderateReview } from "@/lib/reviews"
+import type { ReviewModerationAction } from "@/lib/types"
+
+type Context = { params: Promise<{ id: string }> }
+
+// Moderator actions: { action: "hide" | "restore" }
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { action } = await readJsonBody(request)
+    return NextResponse.json(await moderateReview(user, Number(id), action as ReviewModerationAction))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
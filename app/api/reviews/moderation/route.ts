@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse } from "@/lib/http"
+import { listFlaggedReviews } from "@/lib/reviews"
+
+// The moderation queue: reported and hidden reviews
+export async function GET() {
+  try {
+    const user = await requireUser()
+    return NextResponse.json(await listFlaggedReviews(user))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
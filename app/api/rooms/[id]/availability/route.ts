@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+
+import { getCurrentUser, requireUser } from "@/lib/auth"
+import { defaultAvailability, parseAvailability } from "@/lib/availability"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { canViewRoom, getOwnedRoom, getRoom, updateRoom } from "@/lib/rooms"
+import { listOpenSlots } from "@/lib/viewings"
+
+type Context = { params: Promise<{ id: string }> }
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const room = await getRoom(Number(id))
+    if (!room || !canViewRoom(room, await getCurrentUser())) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      availability: room.availability ?? defaultAvailability,
+      slots: await listOpenSlots(room.id),
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function PUT(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    await getOwnedRoom(Number(id), user)
+
+    const availability = parseAvailability(await readJsonBody(request))
+    if (!availability) {
+      return NextResponse.json({ error: "Each window needs a day and a start time before its end time" }, { status: 400 })
+    }
+
+    await updateRoom(Number(id), { availability })
+    return NextResponse.json({ availability, slots: await listOpenSlots(Number(id)) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
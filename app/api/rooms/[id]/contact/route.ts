@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { getContactStats, relayEmail, revealPhone } from "@/lib/contacts"
+import { errorResponse, readJsonBody } from "@/lib/http"
+
+type Context = { params: Promise<{ id: string }> }
+
+// Contact counts for the listing's owner
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    return NextResponse.json(await getContactStats(user, Number(id)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { method, message } = await readJsonBody(request)
+
+    if (method === "call") {
+      return NextResponse.json({ phone: await revealPhone(user, Number(id)) })
+    }
+    if (method === "email") {
+      await relayEmail(user, Number(id), String(message ?? ""))
+      return new NextResponse(null, { status: 204 })
+    }
+    return NextResponse.json({ error: "Unknown contact method" }, { status: 400 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { parseScores } from "@/lib/ratings"
+import { createReview, getReviewEligibility } from "@/lib/reviews"
+
+type Context = { params: Promise<{ id: string }> }
+
+// Whether the logged-in user may post a review for this room
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    return NextResponse.json(await getReviewEligibility(user, Number(id)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { rating, scores, comment } = await readJsonBody(request)
+    const review = await createReview(user, Number(id), {
+      rating: Number(rating),
+      scores: parseScores(scores),
+      comment: String(comment ?? ""),
+    })
+    return NextResponse.json(review, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
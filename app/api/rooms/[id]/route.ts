@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server"
+
+import { getCurrentUser, requireUser } from "@/lib/auth"
+import { errorResponse, HttpError, readJsonBody } from "@/lib/http"
+import { listReviews } from "@/lib/reviews"
+import {
+  canViewRoom,
+  changeRoomStatus,
+  deleteRoom,
+  getOwnedRoom,
+  getOwnerDetails,
+  getRoom,
+  locateRoom,
+  parseRoomInput,
+  toPublicRoom,
+  updateRoom,
+} from "@/lib/rooms"
+import type { RoomStatusAction } from "@/lib/types"
+
+type Context = { params: Promise<{ id: string }> }
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+  const room = await getRoom(Number(id))
+  const user = await getCurrentUser()
+  if (!room || !canViewRoom(room, user)) {
+    return NextResponse.json({ error: "Room not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    ...toPublicRoom(room, user),
+    ownerDetails: room.owner ? await getOwnerDetails(room.owner) : undefined,
+    reviewsList: await listReviews(room.id),
+  })
+}
+
+export async function PUT(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const current = await getOwnedRoom(Number(id), user)
+
+    const input = parseRoomInput(await readJsonBody(request))
+
+    const room = await updateRoom(Number(id), await locateRoom(input, current))
+    // The listing may have been trashed while the address was being geocoded
+    if (!room) throw new HttpError("Room not found", 404)
+    return NextResponse.json(toPublicRoom(room, user))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Owner status changes: { action: "publish" | "pause" | "rent" | "archive" }
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { action } = await readJsonBody(request)
+    return NextResponse.json(toPublicRoom(await changeRoomStatus(user, Number(id), action as RoomStatusAction), user))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    await getOwnedRoom(Number(id), user)
+    await deleteRoom(Number(id))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { getCurrentUser, requireUser } from "@/lib/auth"
+import { searchParamsToRoomQuery } from "@/lib/filters"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { createRoom, locateRoom, parseRoomInput, queryRooms, toPublicRoom } from "@/lib/rooms"
+
+export async function GET(request: NextRequest) {
+  const query = searchParamsToRoomQuery(request.nextUrl.searchParams)
+  const user = await getCurrentUser()
+
+  return NextResponse.json(await queryRooms(query, user))
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser()
+    const input = parseRoomInput(await readJsonBody(request))
+
+    const room = await createRoom(await locateRoom({ ...input, owner: user.email }))
+    return NextResponse.json(toPublicRoom(room, user), { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse } from "@/lib/http"
+import { restoreRoom, toPublicRoom } from "@/lib/rooms"
+
+type Context = { params: Promise<{ id: string }> }
+
+// Moves a listing out of the trash with the status it had when it was deleted
+export async function POST(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    return NextResponse.json(toPublicRoom(await restoreRoom(user, Number(id)), user))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
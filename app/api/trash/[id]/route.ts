@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse } from "@/lib/http"
+import { purgeRoom } from "@/lib/rooms"
+
+type Context = { params: Promise<{ id: string }> }
+
+// Deletes a trashed listing for good
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    await purgeRoom(user, Number(id))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
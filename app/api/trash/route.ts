@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse } from "@/lib/http"
+import { listDeletedRooms } from "@/lib/rooms"
+
+// The logged-in owner's deleted listings that can still be restored, most recently deleted first
+export async function GET() {
+  try {
+    const user = await requireUser()
+    return NextResponse.json(await listDeletedRooms(user))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
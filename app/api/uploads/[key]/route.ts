@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+
+import { readImage } from "@/lib/uploads"
+
+type Context = { params: Promise<{ key: string }> }
+
+// Uploaded images never change once written, so browsers can cache them indefinitely
+export async function GET(_request: Request, { params }: Context) {
+  const { key } = await params
+  const image = await readImage(key)
+  if (!image) return NextResponse.json({ error: "Image not found" }, { status: 404 })
+
+  return new NextResponse(image, {
+    headers: {
+      "Content-Type": "image/webp",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  })
+}
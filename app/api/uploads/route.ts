@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse } from "@/lib/http"
+import { saveImages } from "@/lib/uploads"
+
+// Multipart upload of listing photos under the "files" field
+export async function POST(request: Request) {
+  try {
+    await requireUser()
+    const form = await request.formData().catch(() => null)
+    if (!form) return NextResponse.json({ error: "Expected a multipart form upload" }, { status: 400 })
+
+    const files = form.getAll("files").filter((value): value is File => value instanceof File)
+    return NextResponse.json(await saveImages(files), { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import type { ViewingAction } from "@/lib/types"
+import { updateViewing } from "@/lib/viewings"
+
+type Context = { params: Promise<{ id: string }> }
+
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params
+
+  try {
+    const user = await requireUser()
+    const { action, date, time } = await readJsonBody(request)
+
+    const viewing = await updateViewing(
+      user,
+      Number(id),
+      action as ViewingAction,
+      date && time ? { date: String(date), time: String(time) } : undefined,
+    )
+    return NextResponse.json(viewing)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
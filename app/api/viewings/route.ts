@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { requireUser } from "@/lib/auth"
+import { errorResponse, readJsonBody } from "@/lib/http"
+import { listViewings, requestViewing } from "@/lib/viewings"
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser()
+    const role = request.nextUrl.searchParams.get("role") === "owner" ? "owner" : "tenant"
+    return NextResponse.json(await listViewings(user, role))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser()
+    const body = await readJsonBody(request)
+
+    const viewing = await requestViewing(user, {
+      roomId: Number(body.roomId),
+      date: String(body.date ?? ""),
+      time: String(body.time ?? ""),
+      phone: body.phone ? String(body.phone) : undefined,
+      message: body.message ? String(body.message) : undefined,
+    })
+    return NextResponse.json(viewing, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -1,12 +1,9 @@
 "use client"
 
-import type React from "react"
-
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef, useCallback } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Textarea } from "@/components/ui/textarea"
 import {
   Search,
   PlusCircle,
@@ -15,6 +12,7 @@ import {
   X,
   Grid,
   List,
+  MapIcon,
   SlidersHorizontal,
   ChevronDown,
   MapPin,
@@ -24,174 +22,251 @@ import {
   Trash2,
   LogOut,
   Building,
+  MessageCircle,
+  ShieldCheck,
 } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
-import { useRouter } from "next/navigation"
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { useRouter, useSearchParams } from "next/navigation"
+import dynamic from "next/dynamic"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useDeleteRoom } from "@/hooks/use-delete-room"
 import { useToast } from "@/hooks/use-toast"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { RangeFilter } from "@/components/range-filter"
+import { DraftsList } from "@/components/drafts-list"
+import { ListingStatusBadge, ListingStatusMenu } from "@/components/listing-status"
+import { RoomForm } from "@/components/room-form"
+import { RoomPagination } from "@/components/room-pagination"
+import { TrashList } from "@/components/trash-list"
+import { ViewingsPanel } from "@/components/viewings-panel"
 import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog"
-
-interface RoomDetails {
-  id: number
-  title: string
-  rent: string
-  deposit: string
-  description: string
-  images: string[]
-  location: string
-  amenities: string[]
-  featured?: boolean
-  rating?: number
-  reviews?: number
-  owner?: string
-}
-
-// Sample amenities list
-const amenitiesList = [
-  "WiFi",
-  "Attached Bathroom",
-  "Furnished",
-  "AC",
-  "Kitchen Access",
-  "Parking",
-  "Balcony",
-  "TV",
-  "Washing Machine",
-  "Gym Access",
-  "Near Metro",
-  "Pets Allowed",
-]
-
-// Sample locations for filter
-const locations = [
-  "Downtown",
-  "North Side",
-  "South Side",
-  "East Side",
-  "West Side",
-  "Central",
-  "Suburban",
-  "University Area",
+  formatRange,
+  isRangeActive,
+  isSortOption,
+  roomQueryToSearchParams,
+  searchParamsToRoomQuery,
+  sortOptions,
+  type NumberRange,
+  type RoomPage,
+  type RoomQuery,
+  type SortOption,
+} from "@/lib/filters"
+import { parseDate } from "@/lib/availability"
+import type { Bounds } from "@/lib/geo"
+import { fetchRooms, fetchSession, logout, updateRoom } from "@/lib/api"
+import { imageAlt, thumbnailUrl } from "@/lib/images"
+import { isRoomStatus, roomStatus, roomStatuses } from "@/lib/listing-status"
+import { roomAmenities, roomLocations, type RoomFormValues } from "@/lib/room-schema"
+import type { RoomDetails, RoomStatus, User } from "@/lib/types"
+
+type ViewMode = "grid" | "list" | "map"
+
+const viewModes: ViewMode[] = ["grid", "list", "map"]
+
+// Map view shows every match at once, up to the API's page size limit
+const MAP_PAGE_SIZE = 50
+
+// Leaflet touches window on import, so the map only renders in the browser
+const RoomsMap = dynamic(() => import("@/components/rooms-map"), {
+  ssr: false,
+  loading: () => <div className="h-full min-h-[400px] rounded-lg bg-gray-200 dark:bg-gray-700 animate-pulse" />,
+})
+
+const dashboardTabs = ["all", "my-listings", "favorites", "viewing-requests", "my-viewings"]
+
+// My Listings can be narrowed to one status, to the wizard drafts that aren't listings yet, or to the trash
+type StatusFilter = "all" | "draft" | "trash" | RoomStatus
+const statusFilters: { value: StatusFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "draft", label: "Drafts" },
+  ...roomStatuses,
+  { value: "trash", label: "Trash" },
 ]
 
 export default function Dashboard() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { toast } = useToast()
+  // The URL is read once on load so a shared link reproduces the same view
+  const [initialQuery] = useState(() => searchParamsToRoomQuery(searchParams))
   const [showModal, setShowModal] = useState(false)
-  const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
+  const [viewMode, setViewMode] = useState<ViewMode>(() => {
+    const view = searchParams.get("view") as ViewMode
+    return viewModes.includes(view) ? view : "grid"
+  })
+  const [sortBy, setSortBy] = useState<SortOption>(initialQuery.sort ?? "featured")
   const [filterOpen, setFilterOpen] = useState(false)
-  const [selectedFilters, setSelectedFilters] = useState<string[]>([])
-  const [searchQuery, setSearchQuery] = useState("")
+  const [selectedFilters, setSelectedFilters] = useState<string[]>([
+    ...(initialQuery.amenities ?? []),
+    ...(initialQuery.locations ?? []),
+  ])
+  const [searchQuery, setSearchQuery] = useState(initialQuery.search ?? "")
+  const [debouncedSearch, setDebouncedSearch] = useState(initialQuery.search ?? "")
+  const [page, setPage] = useState(initialQuery.page ?? 1)
+  const [rentRange, setRentRange] = useState<NumberRange>(initialQuery.rent ?? {})
+  const [depositRange, setDepositRange] = useState<NumberRange>(initialQuery.deposit ?? {})
+  const [mapArea, setMapArea] = useState<Bounds | null>(initialQuery.bounds ?? null)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>(initialQuery.statuses?.[0] ?? "all")
+  const [moveIn, setMoveIn] = useState(initialQuery.moveIn ?? "")
+  const [stayMonths, setStayMonths] = useState<number | undefined>(initialQuery.stayMonths)
+  const [highlightedRoomId, setHighlightedRoomId] = useState<number | null>(null)
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
   const [favorites, setFavorites] = useState<number[]>([])
   const [isLoggedIn, setIsLoggedIn] = useState(false)
-  const [currentUser, setCurrentUser] = useState<{ name: string; email: string } | null>(null)
-  const [activeTab, setActiveTab] = useState("all")
-  const [showDeleteAlert, setShowDeleteAlert] = useState(false)
-  const [roomToDelete, setRoomToDelete] = useState<number | null>(null)
-  const [isEditing, setIsEditing] = useState(false)
-  const [darkMode, setDarkMode] = useState(false)
-
-  const [roomDetails, setRoomDetails] = useState<RoomDetails>({
-    id: 0,
-    title: "",
-    rent: "",
-    deposit: "",
-    description: "",
-    images: [],
-    location: "",
-    amenities: [],
+  const unreadMessages = useUnreadMessages(isLoggedIn)
+  const [currentUser, setCurrentUser] = useState<User | null>(null)
+  const [activeTab, setActiveTab] = useState(() => {
+    const tab = searchParams.get("tab")
+    return tab && dashboardTabs.includes(tab) ? tab : "all"
   })
+  // Listing open in the modal for editing; null while adding a new one
+  const [editingRoom, setEditingRoom] = useState<RoomDetails | null>(null)
+  const [darkMode, setDarkMode] = useState(false)
 
-  // Sample data for initial rooms
-  const [rooms, setRooms] = useState<RoomDetails[]>([
-    {
-      id: 1,
-      title: "Luxury Studio Apartment",
-      rent: "15000",
-      deposit: "30000",
-      description:
-        "Modern studio apartment with premium furnishings, high ceilings, and lots of natural light. Located in the heart of the city with easy access to public transportation.",
-      images: ["/placeholder.svg?height=400&width=600", "/placeholder.svg?height=400&width=600"],
-      location: "Downtown",
-      amenities: ["WiFi", "AC", "Furnished", "Attached Bathroom", "Kitchen Access"],
-      featured: true,
-      rating: 4.8,
-      reviews: 24,
-      owner: "admin@example.com",
-    },
-    {
-      id: 2,
-      title: "Cozy Single Room in Shared Flat",
-      rent: "8000",
-      deposit: "16000",
-      description:
-        "Comfortable single room in a well-maintained shared apartment. All utilities included. Great for students or young professionals.",
-      images: ["/placeholder.svg?height=400&width=600"],
-      location: "University Area",
-      amenities: ["WiFi", "Furnished", "Kitchen Access", "Washing Machine"],
-      rating: 4.2,
-      reviews: 15,
-      owner: "john@example.com",
-    },
-    {
-      id: 3,
-      title: "Spacious 2BHK with Balcony",
-      rent: "22000",
-      deposit: "44000",
-      description:
-        "Large two-bedroom apartment with a beautiful balcony overlooking the city. Recently renovated with modern amenities.",
-      images: [
-        "/placeholder.svg?height=400&width=600",
-        "/placeholder.svg?height=400&width=600",
-        "/placeholder.svg?height=400&width=600",
-      ],
-      location: "East Side",
-      amenities: ["WiFi", "AC", "Furnished", "Attached Bathroom", "Balcony", "Parking"],
-      featured: true,
-      rating: 4.9,
-      reviews: 32,
-      owner: "admin@example.com",
-    },
-  ])
+  const [roomPage, setRoomPage] = useState<RoomPage | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
 
   // Check if user is logged in
   useEffect(() => {
-    const savedUser = localStorage.getItem("currentUser")
-    if (!savedUser) {
-      // If user is not logged in, redirect to login page
-      router.push("/login")
-      return
-    }
+    fetchSession().then((user) => {
+      if (!user) {
+        // The cookie the middleware let through is no longer valid
+        router.replace(`/login?next=${encodeURIComponent(window.location.pathname)}`)
+        return
+      }
 
-    setCurrentUser(JSON.parse(savedUser))
-    setIsLoggedIn(true)
+      setCurrentUser(user)
+      setIsLoggedIn(true)
+    })
 
     const savedFavorites = localStorage.getItem("favorites")
     if (savedFavorites) {
       setFavorites(JSON.parse(savedFavorites))
     }
 
-    // Check if there's an active tab in localStorage
-    const storedTab = localStorage.getItem("activeTab")
-    if (storedTab) {
-      setActiveTab(storedTab)
-      localStorage.removeItem("activeTab")
+    // Restore the last used layout and sort order, unless a link specified the view
+    const savedView = localStorage.getItem("dashboardView")
+    if (savedView && !window.location.search) {
+      const view = JSON.parse(savedView)
+      if (viewModes.includes(view.viewMode)) setViewMode(view.viewMode)
+      if (isSortOption(view.sortBy)) setSortBy(view.sortBy)
     }
   }, [router])
 
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery), 300)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  // The viewing tabs swap the listings for the owner's inbox or the tenant's bookings
+  const viewingsRole = activeTab === "viewing-requests" ? "owner" : activeTab === "my-viewings" ? "tenant" : null
+
+  // The Drafts and Trash filters list wizard drafts or deleted rooms in place of the owner's rooms
+  const showingDrafts = activeTab === "my-listings" && statusFilter === "draft"
+  const showingTrash = activeTab === "my-listings" && statusFilter === "trash"
+  const listingStatus = activeTab === "my-listings" && isRoomStatus(statusFilter) ? statusFilter : undefined
+
+  // Only the wishlist tab depends on favorites, so toggling one elsewhere keeps the current page
+  const wishlistIds = activeTab === "favorites" ? favorites : undefined
+
+  const query = useMemo<RoomQuery>(
+    () => ({
+      search: debouncedSearch,
+      amenities: selectedFilters.filter((filter) => roomAmenities.includes(filter)),
+      locations: selectedFilters.filter((filter) => roomLocations.includes(filter)),
+      rent: rentRange,
+      deposit: depositRange,
+      bounds: mapArea ?? undefined,
+      moveIn: moveIn || undefined,
+      stayMonths,
+      mine: activeTab === "my-listings",
+      statuses: listingStatus && [listingStatus],
+      ids: wishlistIds,
+      sort: sortBy,
+      pageSize: viewMode === "map" ? MAP_PAGE_SIZE : undefined,
+    }),
+    [
+      debouncedSearch,
+      selectedFilters,
+      rentRange,
+      depositRange,
+      mapArea,
+      moveIn,
+      stayMonths,
+      activeTab,
+      listingStatus,
+      wishlistIds,
+      sortBy,
+      viewMode,
+    ],
+  )
+
+  // Any change to the filters starts again from the first page
+  const previousQuery = useRef(query)
+  useEffect(() => {
+    if (previousQuery.current !== query) {
+      previousQuery.current = query
+      setPage(1)
+    }
+  }, [query])
+
+  // Mirror the view in the URL so it can be bookmarked or shared
+  useEffect(() => {
+    const params = roomQueryToSearchParams({
+      ...query,
+      mine: undefined,
+      ids: undefined,
+      pageSize: undefined,
+      sort: sortBy === "featured" ? undefined : sortBy,
+      page,
+    })
+    if (activeTab !== "all") params.set("tab", activeTab)
+    if (viewMode !== "grid") params.set("view", viewMode)
+
+    const search = params.toString()
+    if (search !== window.location.search.slice(1)) {
+      router.replace(search ? `/dashboard?${search}` : "/dashboard", { scroll: false })
+    }
+  }, [query, sortBy, page, activeTab, viewMode, router])
+
+  // Load the current page of listings from the API
+  useEffect(() => {
+    let cancelled = false
+
+    fetchRooms({ ...query, page })
+      .then((result) => {
+        if (!cancelled) setRoomPage(result)
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to load rooms",
+          description: error.message,
+          variant: "destructive",
+        })
+      })
+
+    // Ignore responses for a query that has since changed
+    return () => {
+      cancelled = true
+    }
+  }, [query, page, refreshKey, toast])
+
+  // Persist layout and sort order between visits
+  useEffect(() => {
+    localStorage.setItem("dashboardView", JSON.stringify({ viewMode, sortBy }))
+  }, [viewMode, sortBy])
+
   // Auto-rotate images
   useEffect(() => {
     const interval = setInterval(() => {
@@ -216,112 +291,44 @@ export default function Dashboard() {
     }
   }, [darkMode])
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    setRoomDetails({ ...roomDetails, [e.target.name]: e.target.value })
-  }
-
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files) return
-
-    const files = Array.from(e.target.files)
-    setRoomDetails({
-      ...roomDetails,
-      images: files.map((file) => URL.createObjectURL(file)),
-    })
-  }
+  const toMonths = (value: string) => (Number(value) > 0 ? Math.floor(Number(value)) : undefined)
 
-  const toggleAmenity = (amenity: string) => {
-    if (roomDetails.amenities.includes(amenity)) {
-      setRoomDetails({
-        ...roomDetails,
-        amenities: roomDetails.amenities.filter((a) => a !== amenity),
-      })
-    } else {
-      setRoomDetails({
-        ...roomDetails,
-        amenities: [...roomDetails.amenities, amenity],
-      })
-    }
-  }
+  // New rooms go through the listing wizard, so the modal only edits existing ones
+  const handleSaveRoom = async (values: RoomFormValues) => {
+    if (!editingRoom) return
 
-  const handleAddRoom = () => {
-    if (!roomDetails.title || !roomDetails.rent || !roomDetails.deposit || !roomDetails.location) {
-      toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields",
-        variant: "destructive",
-      })
-      return
-    }
-
-    if (isEditing) {
-      // Update existing room
-      const updatedRooms = rooms.map((room) =>
-        room.id === roomDetails.id ? { ...roomDetails, owner: currentUser?.email || "" } : room,
-      )
-      setRooms(updatedRooms)
+    try {
+      await updateRoom(editingRoom.id, values)
       toast({
         title: "Room Updated",
         description: "Your room has been successfully updated",
         variant: "default",
       })
-    } else {
-      // Add new room
-      const newRoom = {
-        ...roomDetails,
-        id: Date.now(),
-        rating: 5.0,
-        reviews: 0,
-        owner: currentUser?.email || "",
-      }
-      setRooms([newRoom, ...rooms])
+    } catch (error) {
       toast({
-        title: "Room Added",
-        description: "Your room has been successfully listed",
-        variant: "default",
+        title: "Update Failed",
+        description: (error as Error).message,
+        variant: "destructive",
       })
+      return
     }
 
-    resetForm()
+    setRefreshKey((key) => key + 1)
     setShowModal(false)
-    setIsEditing(false)
-  }
-
-  const resetForm = () => {
-    setRoomDetails({
-      id: 0,
-      title: "",
-      rent: "",
-      deposit: "",
-      description: "",
-      images: [],
-      location: "",
-      amenities: [],
-    })
+    setEditingRoom(null)
   }
 
   const handleEditRoom = (room: RoomDetails) => {
-    setRoomDetails(room)
-    setIsEditing(true)
+    setEditingRoom(room)
     setShowModal(true)
   }
 
-  const handleDeleteRoom = (id: number) => {
-    setRoomToDelete(id)
-    setShowDeleteAlert(true)
-  }
+  const refreshRooms = useCallback(() => setRefreshKey((key) => key + 1), [])
+  const deleteRoom = useDeleteRoom(refreshRooms)
 
-  const confirmDeleteRoom = () => {
-    if (roomToDelete) {
-      setRooms(rooms.filter((room) => room.id !== roomToDelete))
-      toast({
-        title: "Room Deleted",
-        description: "Your room has been successfully removed",
-        variant: "default",
-      })
-      setShowDeleteAlert(false)
-      setRoomToDelete(null)
-    }
+  // Deleted rooms go to the trash; the toast's Undo puts them straight back
+  const handleDeleteRoom = async (room: RoomDetails) => {
+    if (await deleteRoom(room)) refreshRooms()
   }
 
   const toggleFavorite = (id: number) => {
@@ -346,10 +353,10 @@ export default function Dashboard() {
     localStorage.setItem("favorites", JSON.stringify(newFavorites))
   }
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await logout()
     setCurrentUser(null)
     setIsLoggedIn(false)
-    localStorage.removeItem("currentUser")
 
     toast({
       title: "Logged Out",
@@ -360,29 +367,28 @@ export default function Dashboard() {
     router.push("/")
   }
 
-  const filteredRooms = rooms.filter((room) => {
-    // Filter by active tab
-    if (activeTab === "my-listings" && room.owner !== currentUser?.email) {
-      return false
-    }
-
-    if (activeTab === "favorites" && !favorites.includes(room.id)) {
-      return false
-    }
-
-    // Filter by search query
-    const matchesSearch =
-      room.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      room.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      room.description.toLowerCase().includes(searchQuery.toLowerCase())
-
-    // Filter by selected amenities/locations
-    const matchesFilters =
-      selectedFilters.length === 0 ||
-      selectedFilters.every((filter) => room.amenities.includes(filter) || room.location === filter)
-
-    return matchesSearch && matchesFilters
-  })
+  const filteredRooms = roomPage?.rooms ?? []
+  const totalRooms = roomPage?.total ?? 0
+
+  // Slider bounds follow the most expensive listing, rounded up to the next thousand
+  const rentBound = Math.ceil(Math.max(1000, roomPage?.maxRent ?? 0) / 1000) * 1000
+  const depositBound = Math.ceil(Math.max(1000, roomPage?.maxDeposit ?? 0) / 1000) * 1000
+
+  const activeFilterCount =
+    selectedFilters.length +
+    (isRangeActive(rentRange) ? 1 : 0) +
+    (isRangeActive(depositRange) ? 1 : 0) +
+    (mapArea ? 1 : 0) +
+    (moveIn || stayMonths ? 1 : 0)
+
+  const clearFilters = () => {
+    setSelectedFilters([])
+    setRentRange({})
+    setDepositRange({})
+    setMapArea(null)
+    setMoveIn("")
+    setStayMonths(undefined)
+  }
 
   const viewRoom = (id: number) => {
     // Navigate to the specific room detail page
@@ -444,6 +450,15 @@ export default function Dashboard() {
             <Heart className="w-4 h-4 mr-1" /> Wishlist
           </Button>
 
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white flex items-center hover:bg-white/10"
+            onClick={() => router.push("/messages")}
+          >
+            <MessageCircle className="w-4 h-4 mr-1" /> Messages
+          </Button>
+
           {isLoggedIn && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -452,10 +467,26 @@ export default function Dashboard() {
                     <AvatarFallback>{currentUser?.name.charAt(0)}</AvatarFallback>
                   </Avatar>
                   <span className="hidden sm:inline">{currentUser?.name}</span>
+                  {unreadMessages > 0 && (
+                    <span className="ml-1 rounded-full bg-amber-400 px-1.5 text-xs font-bold text-gray-900">
+                      {unreadMessages}
+                    </span>
+                  )}
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
                 <DropdownMenuItem onClick={() => setActiveTab("my-listings")}>My Listings</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push("/messages")}>
+                  <MessageCircle className="w-4 h-4 mr-2" /> Messages
+                  {unreadMessages > 0 && (
+                    <Badge className="ml-auto bg-amber-500 hover:bg-amber-500">{unreadMessages}</Badge>
+                  )}
+                </DropdownMenuItem>
+                {currentUser?.isModerator && (
+                  <DropdownMenuItem onClick={() => router.push("/moderation")}>
+                    <ShieldCheck className="w-4 h-4 mr-2" /> Moderation
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={handleLogout}>
                   <LogOut className="w-4 h-4 mr-2" /> Logout
                 </DropdownMenuItem>
@@ -508,11 +539,7 @@ export default function Dashboard() {
         </div>
         <Button
           className="bg-rose-700 hover:bg-rose-800 text-white flex items-center shadow-xl w-full sm:w-auto"
-          onClick={() => {
-            resetForm()
-            setIsEditing(false)
-            setShowModal(true)
-          }}
+          onClick={() => router.push("/room/new")}
         >
           <PlusCircle className="w-5 h-5 mr-2" /> Add Room
         </Button>
@@ -528,11 +555,13 @@ export default function Dashboard() {
                   <TabsTrigger value="all">All Rooms</TabsTrigger>
                   <TabsTrigger value="my-listings">My Listings</TabsTrigger>
                   <TabsTrigger value="favorites">Wishlist</TabsTrigger>
+                  <TabsTrigger value="viewing-requests">Viewing Requests</TabsTrigger>
+                  <TabsTrigger value="my-viewings">My Viewings</TabsTrigger>
                 </TabsList>
               </Tabs>
 
               <h3 className="font-medium text-gray-700 dark:text-gray-200">
-                {filteredRooms.length} {filteredRooms.length === 1 ? "Room" : "Rooms"}
+                {totalRooms} {totalRooms === 1 ? "Room" : "Rooms"}
               </h3>
 
               <div className="flex items-center space-x-2">
@@ -554,6 +583,39 @@ export default function Dashboard() {
                   <List className="h-4 w-4" />
                   <span className="sr-only">List view</span>
                 </Button>
+                <Button
+                  variant={viewMode === "map" ? "default" : "outline"}
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setViewMode("map")}
+                >
+                  <MapIcon className="h-4 w-4" />
+                  <span className="sr-only">Map view</span>
+                </Button>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="h-8 dark:text-white dark:border-gray-600 dark:hover:bg-gray-700"
+                    >
+                      {sortOptions.find((option) => option.value === sortBy)?.label}
+                      <ChevronDown className="h-4 w-4 ml-2" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuRadioGroup
+                      value={sortBy}
+                      onValueChange={(value) => isSortOption(value) && setSortBy(value)}
+                    >
+                      {sortOptions.map((option) => (
+                        <DropdownMenuRadioItem key={option.value} value={option.value}>
+                          {option.label}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
 
@@ -568,32 +630,75 @@ export default function Dashboard() {
                 <ChevronDown className={`h-4 w-4 ml-2 transition-transform ${filterOpen ? "rotate-180" : ""}`} />
               </Button>
 
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="outline" className="h-8 dark:text-white dark:border-gray-600 dark:hover:bg-gray-700">
-                    Sort By <ChevronDown className="h-4 w-4 ml-2" />
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent>
-                  <DropdownMenuItem>Price: Low to High</DropdownMenuItem>
-                  <DropdownMenuItem>Price: High to Low</DropdownMenuItem>
-                  <DropdownMenuItem>Rating: High to Low</DropdownMenuItem>
-                  <DropdownMenuItem>Most Recent</DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
-
-              {selectedFilters.length > 0 && (
+              {activeFilterCount > 0 && (
                 <Button
                   variant="ghost"
                   className="h-8 text-sm dark:text-gray-300 dark:hover:bg-gray-700"
-                  onClick={() => setSelectedFilters([])}
+                  onClick={clearFilters}
                 >
-                  Clear ({selectedFilters.length})
+                  Clear ({activeFilterCount})
                 </Button>
               )}
             </div>
           </div>
 
+          {/* Active filter chips */}
+          {activeFilterCount > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {selectedFilters.map((filter) => (
+                <Badge key={filter} variant="secondary" className="flex items-center gap-1">
+                  {filter}
+                  <button onClick={() => setSelectedFilters(selectedFilters.filter((f) => f !== filter))}>
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove {filter} filter</span>
+                  </button>
+                </Badge>
+              ))}
+              {isRangeActive(rentRange) && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  Rent: {formatRange(rentRange)}
+                  <button onClick={() => setRentRange({})}>
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove rent filter</span>
+                  </button>
+                </Badge>
+              )}
+              {isRangeActive(depositRange) && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  Deposit: {formatRange(depositRange)}
+                  <button onClick={() => setDepositRange({})}>
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove deposit filter</span>
+                  </button>
+                </Badge>
+              )}
+              {mapArea && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  Map area
+                  <button onClick={() => setMapArea(null)}>
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove map area filter</span>
+                  </button>
+                </Badge>
+              )}
+              {(moveIn || stayMonths) && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  Available{moveIn && ` by ${parseDate(moveIn).toLocaleDateString()}`}
+                  {stayMonths && ` for ${stayMonths} ${stayMonths === 1 ? "month" : "months"}`}
+                  <button
+                    onClick={() => {
+                      setMoveIn("")
+                      setStayMonths(undefined)
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove availability filter</span>
+                  </button>
+                </Badge>
+              )}
+            </div>
+          )}
+
           {/* Filter Panel */}
           <AnimatePresence>
             {filterOpen && (
@@ -610,11 +715,12 @@ export default function Dashboard() {
                       <TabsTrigger value="amenities">Amenities</TabsTrigger>
                       <TabsTrigger value="location">Location</TabsTrigger>
                       <TabsTrigger value="price">Price Range</TabsTrigger>
+                      <TabsTrigger value="availability">Availability</TabsTrigger>
                     </TabsList>
 
                     <TabsContent value="amenities" className="mt-0">
                       <div className="flex flex-wrap gap-2">
-                        {amenitiesList.map((amenity) => (
+                        {roomAmenities.map((amenity) => (
                           <Badge
                             key={amenity}
                             variant={selectedFilters.includes(amenity) ? "default" : "outline"}
@@ -635,7 +741,7 @@ export default function Dashboard() {
 
                     <TabsContent value="location" className="mt-0">
                       <div className="flex flex-wrap gap-2">
-                        {locations.map((location) => (
+                        {roomLocations.map((location) => (
                           <Badge
                             key={location}
                             variant={selectedFilters.includes(location) ? "default" : "outline"}
@@ -655,11 +761,57 @@ export default function Dashboard() {
                     </TabsContent>
 
                     <TabsContent value="price" className="mt-0">
-                      <div className="flex items-center gap-4">
-                        <Input type="number" placeholder="Min" className="w-24 dark:bg-gray-700 dark:border-gray-600" />
-                        <span className="dark:text-white">to</span>
-                        <Input type="number" placeholder="Max" className="w-24 dark:bg-gray-700 dark:border-gray-600" />
-                        <Button size="sm">Apply</Button>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <RangeFilter
+                          label="Monthly Rent (₹)"
+                          bound={rentBound}
+                          value={rentRange}
+                          onApply={setRentRange}
+                        />
+                        <RangeFilter
+                          label="Deposit (₹)"
+                          bound={depositBound}
+                          step={1000}
+                          value={depositRange}
+                          onApply={setDepositRange}
+                        />
+                      </div>
+                    </TabsContent>
+
+                    <TabsContent value="availability" className="mt-0">
+                      <div className="flex flex-wrap items-end gap-4">
+                        <div>
+                          <label
+                            htmlFor="moveIn"
+                            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                          >
+                            Move-in Date
+                          </label>
+                          <Input
+                            id="moveIn"
+                            type="date"
+                            value={moveIn}
+                            onChange={(e) => setMoveIn(e.target.value)}
+                            className="w-44 dark:bg-gray-700 dark:border-gray-600"
+                          />
+                        </div>
+                        <div>
+                          <label
+                            htmlFor="stayMonths"
+                            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                          >
+                            Stay (months)
+                          </label>
+                          <Input
+                            id="stayMonths"
+                            type="number"
+                            min={1}
+                            placeholder="Any"
+                            value={stayMonths ?? ""}
+                            onChange={(e) => setStayMonths(toMonths(e.target.value))}
+                            className="w-28 dark:bg-gray-700 dark:border-gray-600"
+                          />
+                        </div>
                       </div>
                     </TabsContent>
                   </Tabs>
@@ -670,223 +822,142 @@ export default function Dashboard() {
         </div>
       </div>
 
-      {/* Listings */}
-      <div className="container mx-auto px-4 pb-16">
-        {filteredRooms.length === 0 ? (
-          <motion.div
-            initial={{ opacity: 0, y: 30 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.6 }}
-            className="text-center text-gray-500 dark:text-gray-400 text-xl mt-10 py-16"
-          >
-            <p className="italic">🔍 No rooms match your search criteria. Try adjusting your filters.</p>
-          </motion.div>
-        ) : (
-          <motion.div
-            variants={container}
-            initial="hidden"
-            animate="show"
-            className={
-              viewMode === "grid"
-                ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6"
-                : "flex flex-col gap-4"
-            }
-          >
-            {filteredRooms.map((room) => (
-              <motion.div
-                key={room.id}
-                variants={item}
-                whileHover={{
-                  scale: viewMode === "grid" ? 1.03 : 1.01,
-                  y: viewMode === "grid" ? -5 : -2,
-                }}
-                transition={{ type: "spring", stiffness: 300 }}
-                className={`rounded-lg shadow-lg overflow-hidden dark:bg-gray-800 dark:border dark:border-gray-700 bg-white ${
-                  room.featured ? "ring-2 ring-amber-400" : ""
-                }`}
-              >
-                {viewMode === "grid" ? (
-                  <Card className="border-0 h-full flex flex-col">
-                    <div className="w-full h-48 overflow-hidden relative">
-                      {room.featured && (
-                        <div className="absolute top-2 left-2 z-10">
-                          <Badge className="bg-amber-500 hover:bg-amber-500">Featured</Badge>
-                        </div>
-                      )}
-
-                      {/* Owner controls */}
-                      {room.owner === currentUser?.email && (
-                        <div className="absolute top-2 right-2 z-10 flex gap-1">
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            className="h-8 w-8 bg-white/80 hover:bg-white"
-                            onClick={(e) => {
-                              e.stopPropagation()
-                              handleEditRoom(room)
-                            }}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            className="h-8 w-8 bg-white/80 hover:bg-white text-red-500"
-                            onClick={(e) => {
-                              e.stopPropagation()
-                              handleDeleteRoom(room.id)
-                            }}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      )}
-
-                      {room.images.length > 0 ? (
-                        <>
-                          {room.images.map((image, index) => (
-                            <motion.img
-                              key={`${room.id}-${index}`}
-                              src={image}
-                              alt={`${room.title} - Image ${index + 1}`}
-                              className="w-full h-full object-cover absolute inset-0"
-                              initial={{ opacity: 0 }}
-                              animate={{
-                                opacity: index === currentImageIndex % room.images.length ? 1 : 0,
-                              }}
-                              transition={{ duration: 0.5 }}
-                            />
-                          ))}
-                          {/* Image navigation dots */}
-                          {room.images.length > 1 && (
-                            <div className="absolute bottom-2 left-0 right-0 flex justify-center gap-1">
-                              {room.images.map((_, index) => (
-                                <button
-                                  key={`dot-${index}`}
-                                  className={`w-2 h-2 rounded-full ${
-                                    index === currentImageIndex % room.images.length ? "bg-white" : "bg-white/50"
-                                  }`}
-                                  onClick={() => setCurrentImageIndex(index)}
-                                />
-                              ))}
-                            </div>
-                          )}
-                        </>
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
-                          <p className="text-gray-500 dark:text-gray-400">No image available</p>
-                        </div>
+      {/* Viewings */}
+      {viewingsRole ? (
+        <div className="container mx-auto px-4 pb-16">
+          <ViewingsPanel role={viewingsRole} />
+        </div>
+      ) : (
+        // Listings
+        <div className="container mx-auto px-4 pb-16">
+          {activeTab === "my-listings" && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {statusFilters.map((filter) => (
+                <Button
+                  key={filter.value}
+                  size="sm"
+                  variant={statusFilter === filter.value ? "default" : "outline"}
+                  className="rounded-full"
+                  onClick={() => setStatusFilter(filter.value)}
+                >
+                  {filter.label}
+                </Button>
+              ))}
+            </div>
+          )}
+          {activeTab === "my-listings" && statusFilter === "all" && <DraftsList />}
+          {showingDrafts && <DraftsList showEmpty />}
+          {showingTrash && <TrashList onRestored={refreshRooms} />}
+          {showingDrafts || showingTrash ? null : viewMode === "map" ? (
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+              <div className="lg:col-span-2 flex flex-col gap-3 lg:max-h-[70vh] lg:overflow-y-auto lg:pr-1">
+                {filteredRooms.length === 0 && (
+                  <p className="italic text-center text-gray-500 dark:text-gray-400 py-16">
+                    No rooms in this area. Try moving the map or drawing a larger area.
+                  </p>
+                )}
+                {filteredRooms.map((room) => (
+                  <Card
+                    key={room.id}
+                    className={`flex cursor-pointer overflow-hidden transition-shadow dark:bg-gray-800 dark:border-gray-700 ${
+                      highlightedRoomId === room.id ? "ring-2 ring-rose-600 shadow-lg" : ""
+                    }`}
+                    onMouseEnter={() => setHighlightedRoomId(room.id)}
+                    onMouseLeave={() => setHighlightedRoomId(null)}
+                    onClick={() => viewRoom(room.id)}
+                  >
+                    <div className="w-28 h-24 flex-shrink-0 bg-gray-200 dark:bg-gray-700">
+                      {room.images.length > 0 && (
+                        <img
+                          src={thumbnailUrl(room.images[0])}
+                          alt={imageAlt(room, 0)}
+                          className="w-full h-full object-cover"
+                        />
                       )}
                     </div>
-                    <CardContent className="p-3 sm:p-4 flex-1 flex flex-col">
-                      <div className="flex items-start justify-between">
-                        <h3 className="text-base sm:text-lg font-semibold dark:text-white line-clamp-1">
-                          {room.title}
-                        </h3>
-                        <div className="flex items-center">
-                          {room.rating && (
-                            <div className="flex items-center text-amber-500 text-sm">
-                              <Star className="w-4 h-4 fill-current" />
-                              <span className="ml-1">{room.rating}</span>
-                            </div>
-                          )}
-                        </div>
-                      </div>
-
-                      <div className="flex items-center mt-1 text-gray-500 dark:text-gray-400 text-xs sm:text-sm">
+                    <CardContent className="p-3 flex-1 min-w-0">
+                      <h3 className="font-semibold dark:text-white line-clamp-1">{room.title}</h3>
+                      <div className="flex items-center mt-1 text-gray-500 dark:text-gray-400 text-xs">
                         <MapPin className="w-3 h-3 mr-1" />
                         {room.location}
                       </div>
-
-                      <div className="mt-2">
-                        <span className="text-lg sm:text-xl font-bold text-rose-700 dark:text-rose-400">
+                      <div className="flex items-center justify-between mt-2">
+                        <span className="font-bold text-rose-700 dark:text-rose-400">
                           ₹{room.rent}
+                          <span className="text-gray-500 dark:text-gray-400 text-xs font-normal">/month</span>
                         </span>
-                        <span className="text-gray-500 dark:text-gray-400 text-xs sm:text-sm">/month</span>
-                      </div>
-
-                      <p className="text-gray-500 dark:text-gray-400 text-xs sm:text-sm mt-1">
-                        Deposit: ₹{room.deposit}
-                      </p>
-
-                      {room.description && (
-                        <p className="text-gray-600 dark:text-gray-300 text-xs sm:text-sm mt-2 line-clamp-2">
-                          {room.description}
-                        </p>
-                      )}
-
-                      {room.amenities && room.amenities.length > 0 && (
-                        <div className="flex flex-wrap gap-1 mt-2">
-                          {room.amenities.slice(0, 2).map((amenity) => (
-                            <Badge key={amenity} variant="outline" className="text-xs">
-                              {amenity}
-                            </Badge>
-                          ))}
-                          {room.amenities.length > 2 && (
-                            <Badge variant="outline" className="text-xs">
-                              +{room.amenities.length - 2} more
-                            </Badge>
-                          )}
-                        </div>
-                      )}
-
-                      <div className="flex justify-between items-center mt-auto pt-3">
-                        <Button
-                          size="sm"
-                          className="bg-amber-500 hover:bg-amber-600 text-white text-xs sm:text-sm"
-                          onClick={() => viewRoom(room.id)}
-                        >
-                          View Details
-                        </Button>
-                        <div className="flex gap-1">
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            className="h-8 w-8 rounded-full"
-                            onClick={(e) => {
-                              e.stopPropagation()
-                              toggleFavorite(room.id)
-                            }}
-                          >
-                            <Heart
-                              className={`w-4 h-4 ${
-                                favorites.includes(room.id)
-                                  ? "fill-red-500 text-red-500"
-                                  : "text-gray-500 dark:text-gray-400"
-                              }`}
-                            />
-                            <span className="sr-only">Add to favorites</span>
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            className="h-8 w-8 rounded-full"
-                            onClick={(e) => {
-                              e.stopPropagation()
-                              handleShare()
-                            }}
-                          >
-                            <Share2 className="w-4 h-4 text-gray-500 dark:text-gray-400" />
-                            <span className="sr-only">Share</span>
-                          </Button>
-                        </div>
+                        {room.rating && (
+                          <span className="flex items-center text-amber-500 text-sm">
+                            <Star className="w-3 h-3 fill-current mr-1" />
+                            {room.rating}
+                          </span>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
-                ) : (
-                  // List view
-                  <Card className="border-0">
-                    <div className="flex flex-col md:flex-row">
-                      <div className="w-full md:w-1/3 h-48 md:h-auto relative">
-                        {room.featured && (
-                          <div className="absolute top-2 left-2 z-10">
-                            <Badge className="bg-amber-500 hover:bg-amber-500">Featured</Badge>
-                          </div>
-                        )}
+                ))}
+              </div>
+              <div className="lg:col-span-3 h-[60vh] lg:h-[70vh] lg:sticky lg:top-4">
+                <RoomsMap
+                  rooms={filteredRooms}
+                  highlightedId={highlightedRoomId}
+                  onHighlight={setHighlightedRoomId}
+                  onSelectRoom={viewRoom}
+                  area={mapArea}
+                  onAreaChange={setMapArea}
+                  className="h-full w-full rounded-lg z-0"
+                />
+              </div>
+            </div>
+          ) : filteredRooms.length === 0 ? (
+            <motion.div
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6 }}
+              className="text-center text-gray-500 dark:text-gray-400 text-xl mt-10 py-16"
+            >
+              <p className="italic">🔍 No rooms match your search criteria. Try adjusting your filters.</p>
+            </motion.div>
+          ) : (
+            <motion.div
+              variants={container}
+              initial="hidden"
+              animate="show"
+              className={
+                viewMode === "grid"
+                  ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6"
+                  : "flex flex-col gap-4"
+              }
+            >
+              {filteredRooms.map((room) => (
+                <motion.div
+                  key={room.id}
+                  variants={item}
+                  whileHover={{
+                    scale: viewMode === "grid" ? 1.03 : 1.01,
+                    y: viewMode === "grid" ? -5 : -2,
+                  }}
+                  transition={{ type: "spring", stiffness: 300 }}
+                  className={`rounded-lg shadow-lg overflow-hidden dark:bg-gray-800 dark:border dark:border-gray-700 bg-white ${
+                    room.featured ? "ring-2 ring-amber-400" : ""
+                  }`}
+                >
+                  {viewMode === "grid" ? (
+                    <Card className="border-0 h-full flex flex-col">
+                      <div className="w-full h-48 overflow-hidden relative">
+                        <div className="absolute top-2 left-2 z-10 flex gap-1">
+                          {room.featured && <Badge className="bg-amber-500 hover:bg-amber-500">Featured</Badge>}
+                          {activeTab === "my-listings" && <ListingStatusBadge status={roomStatus(room)} />}
+                        </div>
 
                         {/* Owner controls */}
-                        {room.owner === currentUser?.email && (
+                        {room.isOwner && (
                           <div className="absolute top-2 right-2 z-10 flex gap-1">
+                            <ListingStatusMenu
+                              room={room}
+                              onChanged={() => setRefreshKey((key) => key + 1)}
+                              className="h-8 w-8 bg-white/80 hover:bg-white"
+                            />
                             <Button
                               variant="outline"
                               size="icon"
@@ -904,7 +975,7 @@ export default function Dashboard() {
                               className="h-8 w-8 bg-white/80 hover:bg-white text-red-500"
                               onClick={(e) => {
                                 e.stopPropagation()
-                                handleDeleteRoom(room.id)
+                                handleDeleteRoom(room)
                               }}
                             >
                               <Trash2 className="h-4 w-4" />
@@ -913,131 +984,313 @@ export default function Dashboard() {
                         )}
 
                         {room.images.length > 0 ? (
-                          <img
-                            src={room.images[0] || "/placeholder.svg"}
-                            alt={room.title}
-                            className="w-full h-full object-cover"
-                          />
+                          <>
+                            {room.images.map((image, index) => (
+                              <motion.img
+                                key={`${room.id}-${index}`}
+                                src={thumbnailUrl(image)}
+                                alt={imageAlt(room, index)}
+                                className="w-full h-full object-cover absolute inset-0"
+                                initial={{ opacity: 0 }}
+                                animate={{
+                                  opacity: index === currentImageIndex % room.images.length ? 1 : 0,
+                                }}
+                                transition={{ duration: 0.5 }}
+                              />
+                            ))}
+                            {/* Image navigation dots */}
+                            {room.images.length > 1 && (
+                              <div className="absolute bottom-2 left-0 right-0 flex justify-center gap-1">
+                                {room.images.map((_, index) => (
+                                  <button
+                                    key={`dot-${index}`}
+                                    className={`w-2 h-2 rounded-full ${
+                                      index === currentImageIndex % room.images.length ? "bg-white" : "bg-white/50"
+                                    }`}
+                                    onClick={() => setCurrentImageIndex(index)}
+                                  />
+                                ))}
+                              </div>
+                            )}
+                          </>
                         ) : (
                           <div className="w-full h-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
                             <p className="text-gray-500 dark:text-gray-400">No image available</p>
                           </div>
                         )}
                       </div>
-
-                      <CardContent className="p-4 flex-1">
-                        <div className="flex flex-col md:flex-row justify-between">
-                          <div>
-                            <div className="flex items-center justify-between">
-                              <h3 className="text-lg font-semibold dark:text-white">{room.title}</h3>
-                              <div className="flex items-center md:hidden">
-                                {room.rating && (
-                                  <div className="flex items-center text-amber-500 text-sm">
-                                    <Star className="w-4 h-4 fill-current" />
-                                    <span className="ml-1">{room.rating}</span>
-                                  </div>
-                                )}
+                      <CardContent className="p-3 sm:p-4 flex-1 flex flex-col">
+                        <div className="flex items-start justify-between">
+                          <h3 className="text-base sm:text-lg font-semibold dark:text-white line-clamp-1">
+                            {room.title}
+                          </h3>
+                          <div className="flex items-center">
+                            {room.rating && (
+                              <div className="flex items-center text-amber-500 text-sm">
+                                <Star className="w-4 h-4 fill-current" />
+                                <span className="ml-1">{room.rating}</span>
                               </div>
-                            </div>
+                            )}
+                          </div>
+                        </div>
 
-                            <div className="flex items-center mt-1 text-gray-500 dark:text-gray-400 text-sm">
-                              <MapPin className="w-3 h-3 mr-1" />
-                              {room.location}
-                            </div>
+                        <div className="flex items-center mt-1 text-gray-500 dark:text-gray-400 text-xs sm:text-sm">
+                          <MapPin className="w-3 h-3 mr-1" />
+                          {room.location}
+                        </div>
 
-                            <p className="text-gray-600 dark:text-gray-300 text-sm mt-2 line-clamp-3 md:max-w-md">
-                              {room.description}
-                            </p>
+                        <div className="mt-2">
+                          <span className="text-lg sm:text-xl font-bold text-rose-700 dark:text-rose-400">
+                            ₹{room.rent}
+                          </span>
+                          <span className="text-gray-500 dark:text-gray-400 text-xs sm:text-sm">/month</span>
+                        </div>
 
-                            {room.amenities && room.amenities.length > 0 && (
-                              <div className="flex flex-wrap gap-1 mt-3">
-                                {room.amenities.map((amenity) => (
-                                  <Badge key={amenity} variant="outline" className="text-xs">
-                                    {amenity}
-                                  </Badge>
-                                ))}
-                              </div>
-                            )}
-                          </div>
+                        <p className="text-gray-500 dark:text-gray-400 text-xs sm:text-sm mt-1">
+                          Deposit: ₹{room.deposit}
+                        </p>
 
-                          <div className="mt-4 md:mt-0 md:ml-4 md:text-right flex flex-col justify-between">
-                            <div>
-                              <div className="hidden md:flex md:justify-end items-center text-amber-500 text-sm mb-2">
-                                {room.rating && (
-                                  <>
-                                    <Star className="w-4 h-4 fill-current" />
-                                    <span className="ml-1">{room.rating}</span>
-                                    <span className="text-gray-500 dark:text-gray-400 ml-1">
-                                      ({room.reviews} reviews)
-                                    </span>
-                                  </>
-                                )}
-                              </div>
+                        {room.description && (
+                          <p className="text-gray-600 dark:text-gray-300 text-xs sm:text-sm mt-2 line-clamp-2">
+                            {room.description}
+                          </p>
+                        )}
 
-                              <div>
-                                <span className="text-xl font-bold text-rose-700 dark:text-rose-400">₹{room.rent}</span>
-                                <span className="text-gray-500 dark:text-gray-400">/month</span>
-                              </div>
+                        {room.amenities && room.amenities.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {room.amenities.slice(0, 2).map((amenity) => (
+                              <Badge key={amenity} variant="outline" className="text-xs">
+                                {amenity}
+                              </Badge>
+                            ))}
+                            {room.amenities.length > 2 && (
+                              <Badge variant="outline" className="text-xs">
+                                +{room.amenities.length - 2} more
+                              </Badge>
+                            )}
+                          </div>
+                        )}
 
-                              <p className="text-gray-500 dark:text-gray-400 text-sm">Deposit: ₹{room.deposit}</p>
-                            </div>
+                        <div className="flex justify-between items-center mt-auto pt-3">
+                          <Button
+                            size="sm"
+                            className="bg-amber-500 hover:bg-amber-600 text-white text-xs sm:text-sm"
+                            onClick={() => viewRoom(room.id)}
+                          >
+                            View Details
+                          </Button>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="h-8 w-8 rounded-full"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                toggleFavorite(room.id)
+                              }}
+                            >
+                              <Heart
+                                className={`w-4 h-4 ${
+                                  favorites.includes(room.id)
+                                    ? "fill-red-500 text-red-500"
+                                    : "text-gray-500 dark:text-gray-400"
+                                }`}
+                              />
+                              <span className="sr-only">Add to favorites</span>
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="h-8 w-8 rounded-full"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                handleShare()
+                              }}
+                            >
+                              <Share2 className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+                              <span className="sr-only">Share</span>
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    // List view
+                    <Card className="border-0">
+                      <div className="flex flex-col md:flex-row">
+                        <div className="w-full md:w-1/3 h-48 md:h-auto relative">
+                          <div className="absolute top-2 left-2 z-10 flex gap-1">
+                            {room.featured && <Badge className="bg-amber-500 hover:bg-amber-500">Featured</Badge>}
+                            {activeTab === "my-listings" && <ListingStatusBadge status={roomStatus(room)} />}
+                          </div>
 
-                            <div className="flex gap-2 mt-4 justify-end">
+                          {/* Owner controls */}
+                          {room.isOwner && (
+                            <div className="absolute top-2 right-2 z-10 flex gap-1">
+                              <ListingStatusMenu
+                                room={room}
+                                onChanged={() => setRefreshKey((key) => key + 1)}
+                                className="h-8 w-8 bg-white/80 hover:bg-white"
+                              />
                               <Button
-                                className="bg-amber-500 hover:bg-amber-600 text-white"
-                                onClick={() => viewRoom(room.id)}
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8 bg-white/80 hover:bg-white"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleEditRoom(room)
+                                }}
                               >
-                                View Details
+                                <Edit className="h-4 w-4" />
                               </Button>
                               <Button
                                 variant="outline"
                                 size="icon"
-                                className="rounded-full"
+                                className="h-8 w-8 bg-white/80 hover:bg-white text-red-500"
                                 onClick={(e) => {
                                   e.stopPropagation()
-                                  toggleFavorite(room.id)
+                                  handleDeleteRoom(room)
                                 }}
                               >
-                                <Heart
-                                  className={`w-5 h-5 ${
-                                    favorites.includes(room.id)
-                                      ? "fill-red-500 text-red-500"
-                                      : "text-gray-500 dark:text-gray-400"
-                                  }`}
-                                />
-                                <span className="sr-only">Add to favorites</span>
+                                <Trash2 className="h-4 w-4" />
                               </Button>
                             </div>
-                          </div>
+                          )}
+
+                          {room.images.length > 0 ? (
+                            <img
+                              src={thumbnailUrl(room.images[0]) || "/placeholder.svg"}
+                              alt={imageAlt(room, 0)}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
+                              <p className="text-gray-500 dark:text-gray-400">No image available</p>
+                            </div>
+                          )}
                         </div>
-                      </CardContent>
-                    </div>
-                  </Card>
-                )}
-              </motion.div>
-            ))}
-          </motion.div>
-        )}
-      </div>
 
-      {/* Modal for Adding/Editing Room */}
+                        <CardContent className="p-4 flex-1">
+                          <div className="flex flex-col md:flex-row justify-between">
+                            <div>
+                              <div className="flex items-center justify-between">
+                                <h3 className="text-lg font-semibold dark:text-white">{room.title}</h3>
+                                <div className="flex items-center md:hidden">
+                                  {room.rating && (
+                                    <div className="flex items-center text-amber-500 text-sm">
+                                      <Star className="w-4 h-4 fill-current" />
+                                      <span className="ml-1">{room.rating}</span>
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+
+                              <div className="flex items-center mt-1 text-gray-500 dark:text-gray-400 text-sm">
+                                <MapPin className="w-3 h-3 mr-1" />
+                                {room.location}
+                              </div>
+
+                              <p className="text-gray-600 dark:text-gray-300 text-sm mt-2 line-clamp-3 md:max-w-md">
+                                {room.description}
+                              </p>
+
+                              {room.amenities && room.amenities.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-3">
+                                  {room.amenities.map((amenity) => (
+                                    <Badge key={amenity} variant="outline" className="text-xs">
+                                      {amenity}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+
+                            <div className="mt-4 md:mt-0 md:ml-4 md:text-right flex flex-col justify-between">
+                              <div>
+                                <div className="hidden md:flex md:justify-end items-center text-amber-500 text-sm mb-2">
+                                  {room.rating && (
+                                    <>
+                                      <Star className="w-4 h-4 fill-current" />
+                                      <span className="ml-1">{room.rating}</span>
+                                      <span className="text-gray-500 dark:text-gray-400 ml-1">
+                                        ({room.reviews} reviews)
+                                      </span>
+                                    </>
+                                  )}
+                                </div>
+
+                                <div>
+                                  <span className="text-xl font-bold text-rose-700 dark:text-rose-400">₹{room.rent}</span>
+                                  <span className="text-gray-500 dark:text-gray-400">/month</span>
+                                </div>
+
+                                <p className="text-gray-500 dark:text-gray-400 text-sm">Deposit: ₹{room.deposit}</p>
+                              </div>
+
+                              <div className="flex gap-2 mt-4 justify-end">
+                                <Button
+                                  className="bg-amber-500 hover:bg-amber-600 text-white"
+                                  onClick={() => viewRoom(room.id)}
+                                >
+                                  View Details
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="icon"
+                                  className="rounded-full"
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    toggleFavorite(room.id)
+                                  }}
+                                >
+                                  <Heart
+                                    className={`w-5 h-5 ${
+                                      favorites.includes(room.id)
+                                        ? "fill-red-500 text-red-500"
+                                        : "text-gray-500 dark:text-gray-400"
+                                    }`}
+                                  />
+                                  <span className="sr-only">Add to favorites</span>
+                                </Button>
+                              </div>
+                            </div>
+                          </div>
+                        </CardContent>
+                      </div>
+                    </Card>
+                  )}
+                </motion.div>
+              ))}
+            </motion.div>
+          )}
+
+          {!showingDrafts && !showingTrash && (
+            <RoomPagination
+              page={roomPage?.page ?? 1}
+              totalPages={roomPage?.totalPages ?? 1}
+              onPageChange={(target) => {
+                setPage(target)
+                window.scrollTo({ top: 0, behavior: "smooth" })
+              }}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Modal for Editing Room; only the close button or Cancel dismiss it, so a stray click can't lose edits */}
       <AnimatePresence>
-        {showModal && (
+        {showModal && editingRoom && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center p-4 z-50"
-            onClick={(e) => {
-              if (e.target === e.currentTarget) setShowModal(false)
-            }}
           >
             <motion.div
               initial={{ scale: 0.9, y: 20 }}
               animate={{ scale: 1, y: 0 }}
               exit={{ scale: 0.9, y: 20 }}
               className="bg-white dark:bg-gray-800 p-5 rounded-lg shadow-lg w-full max-w-md relative dark:text-white"
-              onClick={(e) => e.stopPropagation()}
               style={{ maxHeight: "90vh", overflowY: "auto" }}
             >
               <button
@@ -1047,181 +1300,17 @@ export default function Dashboard() {
                 <X className="w-5 h-5" />
                 <span className="sr-only">Close</span>
               </button>
-              <h2 className="text-xl font-bold mb-4">{isEditing ? "Edit Room" : "Add a New Room"}</h2>
-              <div className="space-y-3">
-                <div>
-                  <label htmlFor="title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Title <span className="text-red-500">*</span>
-                  </label>
-                  <Input
-                    id="title"
-                    name="title"
-                    value={roomDetails.title}
-                    placeholder="e.g., Cozy Single Room in Central Location"
-                    onChange={handleInputChange}
-                    required
-                    className="dark:bg-gray-700 dark:border-gray-600"
-                  />
-                </div>
-
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <label htmlFor="rent" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      Monthly Rent (₹) <span className="text-red-500">*</span>
-                    </label>
-                    <Input
-                      id="rent"
-                      name="rent"
-                      value={roomDetails.rent}
-                      placeholder="e.g., 5000"
-                      type="number"
-                      onChange={handleInputChange}
-                      required
-                      className="dark:bg-gray-700 dark:border-gray-600"
-                    />
-                  </div>
-                  <div>
-                    <label
-                      htmlFor="deposit"
-                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-                    >
-                      Deposit (₹) <span className="text-red-500">*</span>
-                    </label>
-                    <Input
-                      id="deposit"
-                      name="deposit"
-                      value={roomDetails.deposit}
-                      placeholder="e.g., 10000"
-                      type="number"
-                      onChange={handleInputChange}
-                      required
-                      className="dark:bg-gray-700 dark:border-gray-600"
-                    />
-                  </div>
-                </div>
-
-                <div>
-                  <label htmlFor="location" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Location <span className="text-red-500">*</span>
-                  </label>
-                  <select
-                    id="location"
-                    name="location"
-                    value={roomDetails.location}
-                    onChange={(e) => setRoomDetails({ ...roomDetails, location: e.target.value })}
-                    className="w-full rounded-md border border-gray-300 dark:border-gray-600 py-2 px-3 dark:bg-gray-700 dark:text-white"
-                    required
-                  >
-                    <option value="">Select location</option>
-                    {locations.map((location) => (
-                      <option key={location} value={location}>
-                        {location}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                <div>
-                  <label
-                    htmlFor="description"
-                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-                  >
-                    Description
-                  </label>
-                  <Textarea
-                    id="description"
-                    name="description"
-                    value={roomDetails.description}
-                    placeholder="Describe the room, amenities, and location..."
-                    rows={2}
-                    onChange={handleInputChange}
-                    className="dark:bg-gray-700 dark:border-gray-600"
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Amenities</label>
-                  <div className="grid grid-cols-2 gap-1 max-h-32 overflow-y-auto pr-1">
-                    {amenitiesList.map((amenity) => (
-                      <div key={amenity} className="flex items-center">
-                        <input
-                          type="checkbox"
-                          id={`amenity-${amenity}`}
-                          checked={roomDetails.amenities.includes(amenity)}
-                          onChange={() => toggleAmenity(amenity)}
-                          className="mr-2"
-                        />
-                        <label htmlFor={`amenity-${amenity}`} className="text-sm text-gray-700 dark:text-gray-300">
-                          {amenity}
-                        </label>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                <div>
-                  <label htmlFor="images" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Images
-                  </label>
-                  <Input
-                    id="images"
-                    type="file"
-                    accept="image/*"
-                    multiple
-                    onChange={handleImageUpload}
-                    className="dark:bg-gray-700 dark:border-gray-600"
-                  />
-
-                  {roomDetails.images.length > 0 && (
-                    <div className="mt-2 flex gap-2 overflow-x-auto py-1">
-                      {roomDetails.images.map((image, index) => (
-                        <div key={index} className="relative w-12 h-12 flex-shrink-0">
-                          <img
-                            src={image || "/placeholder.svg"}
-                            alt={`Preview ${index + 1}`}
-                            className="w-full h-full object-cover rounded"
-                          />
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </div>
-
-                <div className="flex gap-2 pt-2">
-                  <Button className="bg-amber-500 hover:bg-amber-600 text-white flex-1" onClick={handleAddRoom}>
-                    {isEditing ? "Update Room" : "Add Room"}
-                  </Button>
-                  <Button
-                    variant="outline"
-                    onClick={() => setShowModal(false)}
-                    className="dark:text-gray-300 dark:border-gray-600"
-                  >
-                    Cancel
-                  </Button>
-                </div>
-              </div>
+              <h2 className="text-xl font-bold mb-4">Edit Room</h2>
+              <RoomForm
+                key={editingRoom.id}
+                room={editingRoom}
+                onSubmit={handleSaveRoom}
+                onCancel={() => setShowModal(false)}
+              />
             </motion.div>
           </motion.div>
         )}
       </AnimatePresence>
-
-      {/* Delete Confirmation Dialog */}
-      <AlertDialog open={showDeleteAlert} onOpenChange={setShowDeleteAlert}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete your room listing.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmDeleteRoom} className="bg-red-500 hover:bg-red-600">
-              Delete
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
     </div>
   )
 }
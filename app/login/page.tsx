@@ -11,6 +11,7 @@ import { Label } from "@/components/ui/label"
 import { Building, ArrowRight, Eye, EyeOff } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { login, register } from "@/lib/api"
 
 export default function LoginPage() {
   const router = useRouter()
@@ -23,24 +24,32 @@ export default function LoginPage() {
   const [registerForm, setRegisterForm] = useState({
     name: "",
     email: "",
+    phone: "",
     password: "",
     confirmPassword: "",
   })
 
-  // Check if user is already logged in
-  useEffect(() => {
-    const savedUser = localStorage.getItem("currentUser")
-    if (savedUser) {
-      // If user is already logged in, redirect to dashboard
-      router.push("/dashboard")
+  // Page the middleware sent us here from. It's resolved against our own origin, so values like "//host" or
+  // "/\host" that a browser would treat as another site fall back to the dashboard.
+  const redirectTo = () => {
+    const next = searchParams.get("next")
+    if (!next) return "/dashboard"
+
+    try {
+      const url = new URL(next, window.location.origin)
+      return url.origin === window.location.origin ? url.pathname + url.search : "/dashboard"
+    } catch {
+      return "/dashboard"
     }
+  }
 
+  useEffect(() => {
     // Check if register param is present
     const register = searchParams.get("register")
     if (register === "true") {
       setIsRegistering(true)
     }
-  }, [router, searchParams])
+  }, [searchParams])
 
   const handleLoginInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setLoginForm({ ...loginForm, [e.target.name]: e.target.value })
@@ -50,17 +59,11 @@ export default function LoginPage() {
     setRegisterForm({ ...registerForm, [e.target.name]: e.target.value })
   }
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    // Simple mock login - in a real app, this would be an API call
-    if (loginForm.email && loginForm.password) {
-      const user = {
-        name: loginForm.email.split("@")[0],
-        email: loginForm.email,
-      }
-
-      localStorage.setItem("currentUser", JSON.stringify(user))
+    try {
+      const user = await login(loginForm.email, loginForm.password)
 
       toast({
         title: "Login Successful",
@@ -68,18 +71,18 @@ export default function LoginPage() {
         variant: "default",
       })
 
-      // Redirect to dashboard
-      router.push("/dashboard")
-    } else {
+      // Return to the page that required login
+      router.push(redirectTo())
+    } catch (error) {
       toast({
         title: "Login Failed",
-        description: "Please enter valid credentials",
+        description: (error as Error).message,
         variant: "destructive",
       })
     }
   }
 
-  const handleRegister = (e: React.FormEvent) => {
+  const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault()
 
     // Simple validation
@@ -101,22 +104,29 @@ export default function LoginPage() {
       return
     }
 
-    // Simple mock registration - in a real app, this would be an API call
-    const user = {
-      name: registerForm.name,
-      email: registerForm.email,
-    }
-
-    localStorage.setItem("currentUser", JSON.stringify(user))
+    try {
+      const user = await register(
+        registerForm.name,
+        registerForm.email,
+        registerForm.password,
+        registerForm.phone || undefined,
+      )
 
-    toast({
-      title: "Registration Successful",
-      description: `Welcome, ${user.name}!`,
-      variant: "default",
-    })
+      toast({
+        title: "Registration Successful",
+        description: `Welcome, ${user.name}!`,
+        variant: "default",
+      })
 
-    // Redirect to dashboard
-    router.push("/dashboard")
+      // Return to the page that required login
+      router.push(redirectTo())
+    } catch (error) {
+      toast({
+        title: "Registration Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    }
   }
 
   return (
@@ -185,6 +195,24 @@ export default function LoginPage() {
                       />
                     </div>
 
+                    <div>
+                      <Label htmlFor="register-phone" className="text-gray-700 dark:text-gray-300">
+                        Phone Number <span className="text-gray-400">(optional)</span>
+                      </Label>
+                      <Input
+                        id="register-phone"
+                        name="phone"
+                        type="tel"
+                        value={registerForm.phone}
+                        onChange={handleRegisterInputChange}
+                        className="mt-1"
+                        placeholder="+91 98765 43210"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Shown only to logged-in tenants who choose to call about your listings.
+                      </p>
+                    </div>
+
                     <div>
                       <Label htmlFor="register-password" className="text-gray-700 dark:text-gray-300">
                         Password
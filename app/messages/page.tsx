@@ -0,0 +1,297 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { motion } from "framer-motion"
+import { ArrowLeft, Building, Heart, Home, MessageCircle, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { MESSAGE_POLL_INTERVAL } from "@/hooks/use-unread-messages"
+import { fetchConversation, fetchConversations, fetchSession, sendMessage } from "@/lib/api"
+import type { ConversationSummary, Message, User } from "@/lib/types"
+
+function formatTime(iso: string) {
+  const date = new Date(iso)
+  const sameDay = date.toDateString() === new Date().toDateString()
+  return sameDay
+    ? date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { day: "numeric", month: "short" })
+}
+
+// Name of the person on the other end of the thread
+function counterpart(conversation: ConversationSummary) {
+  return conversation.role === "owner" ? conversation.tenantName : conversation.ownerName
+}
+
+export default function MessagesPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const [darkMode, setDarkMode] = useState(false)
+  const [currentUser, setCurrentUser] = useState<User | null>(null)
+  const [conversations, setConversations] = useState<ConversationSummary[] | null>(null)
+  const [messages, setMessages] = useState<Message[]>([])
+  const [draft, setDraft] = useState("")
+  const [sending, setSending] = useState(false)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  const selectedId = Number(searchParams.get("c")) || null
+  const selected = conversations?.find((conversation) => conversation.id === selectedId) ?? null
+
+  useEffect(() => {
+    setDarkMode(document.documentElement.classList.contains("dark"))
+
+    fetchSession().then((user) => {
+      if (!user) {
+        router.replace(`/login?next=${encodeURIComponent(`${window.location.pathname}${window.location.search}`)}`)
+        return
+      }
+      setCurrentUser(user)
+    })
+  }, [router])
+
+  useEffect(() => {
+    if (darkMode) {
+      document.documentElement.classList.add("dark")
+    } else {
+      document.documentElement.classList.remove("dark")
+    }
+  }, [darkMode])
+
+  // Poll the inbox and the open thread so new messages show up without a reload
+  useEffect(() => {
+    if (!currentUser) return
+    let cancelled = false
+
+    const refresh = async () => {
+      try {
+        const thread = selectedId ? await fetchConversation(selectedId) : null
+        const inbox = await fetchConversations()
+        if (cancelled) return
+        setConversations(inbox)
+        setMessages(thread?.messages ?? [])
+      } catch (error) {
+        if (!cancelled) {
+          toast({ title: "Failed to load messages", description: (error as Error).message, variant: "destructive" })
+        }
+      }
+    }
+
+    refresh()
+    const interval = setInterval(refresh, MESSAGE_POLL_INTERVAL)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [currentUser, selectedId, toast])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages.length])
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedId || !draft.trim()) return
+
+    setSending(true)
+    try {
+      const message = await sendMessage(selectedId, draft)
+      setMessages((current) => [...current, message])
+      setConversations(
+        (current) =>
+          current?.map((conversation) =>
+            conversation.id === selectedId
+              ? { ...conversation, lastMessage: message.body, updatedAt: message.createdAt }
+              : conversation,
+          ) ?? null,
+      )
+      setDraft("")
+    } catch (error) {
+      toast({ title: "Message not sent", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className={`min-h-screen ${darkMode ? "dark bg-gray-900" : "bg-gray-50"}`}>
+      {/* Navbar */}
+      <motion.nav
+        initial={{ y: -50, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ duration: 0.5 }}
+        className="bg-gradient-to-r from-amber-800 to-rose-900 dark:from-gray-900 dark:to-gray-800 text-white p-4 flex flex-wrap justify-between items-center shadow-lg"
+      >
+        <div className="flex items-center">
+          <Building className="h-6 w-6 text-amber-400 mr-2" />
+          <h1 className="text-xl font-bold">Premium Room Finder</h1>
+        </div>
+        <div className="flex flex-wrap space-x-2 items-center mt-2 sm:mt-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white flex items-center hover:bg-white/10"
+            onClick={() => router.push("/dashboard")}
+          >
+            <Home className="w-4 h-4 mr-1" /> Home
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white flex items-center hover:bg-white/10"
+            onClick={() => router.push("/dashboard?tab=favorites")}
+          >
+            <Heart className="w-4 h-4 mr-1" /> Wishlist
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10"
+            onClick={() => setDarkMode(!darkMode)}
+          >
+            {darkMode ? "Light" : "Dark"}
+          </Button>
+        </div>
+      </motion.nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <h2 className="text-2xl font-bold mb-6 dark:text-white">Messages</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {/* Conversations */}
+          <Card className={`dark:bg-gray-800 dark:border-gray-700 ${selectedId ? "hidden md:block" : ""}`}>
+            <CardContent className="p-0 divide-y dark:divide-gray-700">
+              {conversations === null && <p className="p-4 text-gray-500 dark:text-gray-400">Loading...</p>}
+              {conversations?.length === 0 && (
+                <p className="p-4 italic text-gray-500 dark:text-gray-400">
+                  No conversations yet. Use the Chat button on a listing to message its owner.
+                </p>
+              )}
+              {conversations?.map((conversation) => (
+                <Link
+                  key={conversation.id}
+                  href={`/messages?c=${conversation.id}`}
+                  className={`flex items-start gap-3 p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
+                    conversation.id === selectedId ? "bg-amber-50 dark:bg-gray-700" : ""
+                  }`}
+                >
+                  <Avatar className="w-9 h-9">
+                    <AvatarFallback>{counterpart(conversation).charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate dark:text-white">{counterpart(conversation)}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                        {formatTime(conversation.updatedAt)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-amber-700 dark:text-amber-400 truncate">{conversation.roomTitle}</p>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                        {conversation.lastMessage ?? "No messages yet"}
+                      </p>
+                      {conversation.unread > 0 && conversation.id !== selectedId && (
+                        <Badge className="bg-amber-500 hover:bg-amber-500">{conversation.unread}</Badge>
+                      )}
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Thread */}
+          <Card className={`md:col-span-2 dark:bg-gray-800 dark:border-gray-700 ${selectedId ? "" : "hidden md:block"}`}>
+            {selected ? (
+              <CardContent className="p-0 flex flex-col h-[70vh]">
+                <div className="flex items-center gap-3 p-4 border-b dark:border-gray-700">
+                  <Button variant="ghost" size="icon" className="md:hidden" onClick={() => router.push("/messages")}>
+                    <ArrowLeft className="w-4 h-4" />
+                  </Button>
+                  <div>
+                    <h3 className="font-semibold dark:text-white">{counterpart(selected)}</h3>
+                    <Link
+                      href={`/room/${selected.roomId}`}
+                      className="text-sm text-amber-700 dark:text-amber-400 hover:underline"
+                    >
+                      {selected.roomTitle}
+                    </Link>
+                  </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                  {messages.length === 0 && (
+                    <p className="text-center italic text-gray-500 dark:text-gray-400">
+                      Say hello to {counterpart(selected)}.
+                    </p>
+                  )}
+                  {messages.map((message) => {
+                    const mine = message.senderId === currentUser?.id
+                    return (
+                      <div key={message.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+                        <div
+                          className={`max-w-[75%] rounded-lg px-3 py-2 ${
+                            mine
+                              ? "bg-amber-500 text-white"
+                              : "bg-gray-100 text-gray-900 dark:bg-gray-700 dark:text-gray-100"
+                          }`}
+                        >
+                          <p className="whitespace-pre-wrap break-words text-sm">{message.body}</p>
+                          <p
+                            className={`mt-1 text-[10px] ${mine ? "text-amber-100" : "text-gray-500 dark:text-gray-400"}`}
+                          >
+                            {formatTime(message.createdAt)}
+                          </p>
+                        </div>
+                      </div>
+                    )
+                  })}
+                  <div ref={bottomRef} />
+                </div>
+
+                <form onSubmit={handleSend} className="flex gap-2 p-4 border-t dark:border-gray-700">
+                  <Textarea
+                    value={draft}
+                    placeholder="Write a message..."
+                    rows={1}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      // Enter sends, Shift+Enter adds a new line
+                      if (e.key === "Enter" && !e.shiftKey) {
+                        e.preventDefault()
+                        e.currentTarget.form?.requestSubmit()
+                      }
+                    }}
+                    className="min-h-0 resize-none dark:bg-gray-700 dark:border-gray-600"
+                  />
+                  <Button
+                    type="submit"
+                    disabled={sending || !draft.trim()}
+                    className="bg-amber-500 hover:bg-amber-600 text-white"
+                  >
+                    <Send className="w-4 h-4" />
+                    <span className="sr-only">Send</span>
+                  </Button>
+                </form>
+              </CardContent>
+            ) : (
+              <CardContent className="h-[70vh] flex flex-col items-center justify-center text-gray-500 dark:text-gray-400">
+                <MessageCircle className="w-10 h-10 mb-2" />
+                <p>Select a conversation to read it.</p>
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { motion } from "framer-motion"
+import { Building, Eye, EyeOff, Flag, Home, ShieldCheck, Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { fetchFlaggedReviews, fetchSession, moderateReview } from "@/lib/api"
+import type { FlaggedReview, ReviewModerationAction } from "@/lib/types"
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" })
+}
+
+export default function ModerationPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [darkMode, setDarkMode] = useState(false)
+  const [queue, setQueue] = useState<FlaggedReview[] | null>(null)
+  const [forbidden, setForbidden] = useState(false)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  useEffect(() => {
+    setDarkMode(document.documentElement.classList.contains("dark"))
+
+    fetchSession().then((user) => {
+      if (!user) {
+        router.replace(`/login?next=${encodeURIComponent(window.location.pathname)}`)
+        return
+      }
+      if (!user.isModerator) {
+        setForbidden(true)
+        return
+      }
+      fetchFlaggedReviews()
+        .then(setQueue)
+        .catch((error) =>
+          toast({ title: "Failed to load reports", description: (error as Error).message, variant: "destructive" }),
+        )
+    })
+  }, [router, toast])
+
+  useEffect(() => {
+    if (darkMode) {
+      document.documentElement.classList.add("dark")
+    } else {
+      document.documentElement.classList.remove("dark")
+    }
+  }, [darkMode])
+
+  const handleAction = async (review: FlaggedReview, action: ReviewModerationAction) => {
+    setBusyId(review.id)
+    try {
+      const updated = await moderateReview(review.id, action)
+      // Restored reviews have no open reports left, so they drop out of the queue
+      setQueue((current) =>
+        action === "restore"
+          ? (current?.filter((r) => r.id !== review.id) ?? null)
+          : (current?.map((r) => (r.id === review.id ? updated : r)) ?? null),
+      )
+      toast({
+        title: action === "hide" ? "Review Hidden" : "Review Restored",
+        description:
+          action === "hide" ? "It no longer appears on the listing." : "It's visible on the listing again.",
+      })
+    } catch (error) {
+      toast({ title: "Action failed", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className={`min-h-screen ${darkMode ? "dark bg-gray-900" : "bg-gray-50"}`}>
+      {/* Navbar */}
+      <motion.nav
+        initial={{ y: -50, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ duration: 0.5 }}
+        className="bg-gradient-to-r from-amber-800 to-rose-900 dark:from-gray-900 dark:to-gray-800 text-white p-4 flex flex-wrap justify-between items-center shadow-lg"
+      >
+        <div className="flex items-center">
+          <Building className="h-6 w-6 text-amber-400 mr-2" />
+          <h1 className="text-xl font-bold">Premium Room Finder</h1>
+        </div>
+        <div className="flex flex-wrap space-x-2 items-center mt-2 sm:mt-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white flex items-center hover:bg-white/10"
+            onClick={() => router.push("/dashboard")}
+          >
+            <Home className="w-4 h-4 mr-1" /> Home
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10"
+            onClick={() => setDarkMode(!darkMode)}
+          >
+            {darkMode ? "Light" : "Dark"}
+          </Button>
+        </div>
+      </motion.nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <h2 className="text-2xl font-bold mb-6 flex items-center dark:text-white">
+          <ShieldCheck className="w-6 h-6 mr-2 text-amber-500" /> Review Moderation
+        </h2>
+
+        {forbidden && (
+          <p className="text-gray-500 dark:text-gray-400">Only moderators can see reported reviews.</p>
+        )}
+        {!forbidden && queue === null && <p className="text-gray-500 dark:text-gray-400">Loading...</p>}
+        {queue?.length === 0 && (
+          <p className="italic text-gray-500 dark:text-gray-400">No reported reviews. Nice and quiet.</p>
+        )}
+
+        <div className="space-y-4">
+          {queue?.map((review) => (
+            <Card key={review.id} className="dark:bg-gray-800 dark:border-gray-700">
+              <CardContent className="p-6">
+                <div className="flex flex-wrap justify-between items-start gap-2">
+                  <div>
+                    <Link
+                      href={`/room/${review.roomId}`}
+                      className="text-sm text-amber-700 dark:text-amber-400 hover:underline"
+                    >
+                      {review.roomTitle}
+                    </Link>
+                    <p className="font-medium dark:text-white">
+                      {review.user}
+                      <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                        {formatDate(review.date)}
+                      </span>
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {review.hidden && <Badge variant="secondary">Hidden</Badge>}
+                    <div className="flex items-center text-amber-500">
+                      {[...Array(5)].map((_, i) => (
+                        <Star key={i} className={`w-4 h-4 ${i < review.rating ? "fill-current" : ""}`} />
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <p className="mt-3 text-gray-700 dark:text-gray-300">{review.comment}</p>
+
+                <div className="mt-4 rounded-lg bg-rose-50 dark:bg-gray-700/50 p-3 space-y-2">
+                  {review.flags.map((flag, i) => (
+                    <div key={i} className={`text-sm ${flag.resolved ? "opacity-60" : ""}`}>
+                      <p className="flex items-center font-medium dark:text-white">
+                        <Flag className="w-3 h-3 mr-1 text-rose-600" />
+                        {flag.userName}
+                        <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                          {formatDate(flag.createdAt)}
+                          {flag.resolved && " · resolved"}
+                        </span>
+                      </p>
+                      <p className="text-gray-700 dark:text-gray-300">{flag.reason}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-4 flex gap-2">
+                  {!review.hidden && (
+                    <Button
+                      size="sm"
+                      disabled={busyId === review.id}
+                      className="bg-rose-600 hover:bg-rose-700 text-white"
+                      onClick={() => handleAction(review, "hide")}
+                    >
+                      <EyeOff className="w-4 h-4 mr-1" /> Hide
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyId === review.id}
+                    onClick={() => handleAction(review, "restore")}
+                  >
+                    <Eye className="w-4 h-4 mr-1" /> {review.hidden ? "Restore" : "Keep Visible"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -9,20 +9,12 @@ import { useTheme } from "next-themes"
 
 export default function LandingPage() {
   const router = useRouter()
-  const [isLoggedIn, setIsLoggedIn] = useState(false)
   const [mounted, setMounted] = useState(false)
   const { theme, setTheme } = useTheme()
 
-  // Check if user is already logged in
   useEffect(() => {
-    const savedUser = localStorage.getItem("currentUser")
-    if (savedUser) {
-      setIsLoggedIn(true)
-      // If user is already logged in, redirect to dashboard
-      router.push("/dashboard")
-    }
     setMounted(true)
-  }, [router])
+  }, [])
 
   // Avoid hydration mismatch
   if (!mounted) {
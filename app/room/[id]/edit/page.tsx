@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { motion } from "framer-motion"
+import { ArrowLeft, Building, Home } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { RoomForm } from "@/components/room-form"
+import { useToast } from "@/hooks/use-toast"
+import { fetchRoom, updateRoom } from "@/lib/api"
+import type { RoomFormValues } from "@/lib/room-schema"
+import type { RoomDetails } from "@/lib/types"
+
+export default function EditRoomPage() {
+  const params = useParams()
+  const router = useRouter()
+  const { toast } = useToast()
+  const [darkMode, setDarkMode] = useState(false)
+  const [room, setRoom] = useState<RoomDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    setDarkMode(document.documentElement.classList.contains("dark"))
+  }, [])
+
+  useEffect(() => {
+    if (darkMode) {
+      document.documentElement.classList.add("dark")
+    } else {
+      document.documentElement.classList.remove("dark")
+    }
+  }, [darkMode])
+
+  useEffect(() => {
+    setLoading(true)
+
+    fetchRoom(Number(params.id))
+      .then(setRoom)
+      .catch(() => setRoom(null))
+      .finally(() => setLoading(false))
+  }, [params.id])
+
+  const roomUrl = `/room/${params.id}`
+
+  const handleSave = async (values: RoomFormValues) => {
+    try {
+      await updateRoom(Number(params.id), values)
+      toast({
+        title: "Room Updated",
+        description: "Your room has been successfully updated",
+        variant: "default",
+      })
+      router.push(roomUrl)
+    } catch (error) {
+      toast({ title: "Update Failed", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className={`min-h-screen ${darkMode ? "dark bg-gray-900" : "bg-gray-50"}`}>
+      {/* Navbar */}
+      <motion.nav
+        initial={{ y: -50, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ duration: 0.5 }}
+        className="bg-gradient-to-r from-amber-800 to-rose-900 dark:from-gray-900 dark:to-gray-800 text-white p-4 flex flex-wrap justify-between items-center shadow-lg"
+      >
+        <div className="flex items-center">
+          <Building className="h-6 w-6 text-amber-400 mr-2" />
+          <h1 className="text-xl font-bold">Premium Room Finder</h1>
+        </div>
+        <div className="flex flex-wrap space-x-2 items-center mt-2 sm:mt-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white flex items-center hover:bg-white/10"
+            onClick={() => router.push("/dashboard")}
+          >
+            <Home className="w-4 h-4 mr-1" /> Home
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10"
+            onClick={() => setDarkMode(!darkMode)}
+          >
+            {darkMode ? "Light" : "Dark"}
+          </Button>
+        </div>
+      </motion.nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Button variant="ghost" className="mb-4 text-gray-600 dark:text-gray-300" onClick={() => router.push(roomUrl)}>
+          <ArrowLeft className="w-4 h-4 mr-2" /> Back to listing
+        </Button>
+
+        {loading ? (
+          <p className="text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : !room ? (
+          <p className="text-gray-500 dark:text-gray-400">
+            The room you're looking for doesn't exist or has been removed.
+          </p>
+        ) : !room.isOwner ? (
+          // The API refuses the save as well; this just saves the visitor a form they can't submit
+          <p className="text-gray-500 dark:text-gray-400">You can only edit your own listings.</p>
+        ) : (
+          <Card className="dark:bg-gray-800 dark:border-gray-700">
+            <CardContent className="p-6 dark:text-white">
+              <h2 className="text-2xl font-bold mb-4">Edit Room</h2>
+              <RoomForm room={room} onSubmit={handleSave} onCancel={() => router.push(roomUrl)} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
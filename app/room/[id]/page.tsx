@@ -2,74 +2,53 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { motion } from "framer-motion"
 import {
   ArrowLeft,
   Heart,
   Share2,
-  MapPin,
   Star,
   Calendar,
   MessageCircle,
   Phone,
   Mail,
-  Check,
-  ChevronLeft,
-  ChevronRight,
   Edit,
   Trash2,
   Building,
   Home,
+  Clock,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { Badge } from "@/components/ui/badge"
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Textarea } from "@/components/ui/textarea"
 import { Input } from "@/components/ui/input"
+import { useDeleteRoom } from "@/hooks/use-delete-room"
 import { useToast } from "@/hooks/use-toast"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AvailabilityEditor } from "@/components/availability-editor"
+import { RatingBreakdown } from "@/components/rating-breakdown"
+import { ReviewCard } from "@/components/review-card"
+import { ListingStatusBadge, ListingStatusMenu } from "@/components/listing-status"
+import { ReviewForm } from "@/components/review-form"
+import { RoomGallery } from "@/components/room-gallery"
+import { RoomOverview } from "@/components/room-overview"
+import { ViewingSlotPicker } from "@/components/viewing-slot-picker"
 import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog"
-
-interface RoomDetails {
-  id: number
-  title: string
-  rent: string
-  deposit: string
-  description: string
-  images: string[]
-  location: string
-  amenities: string[]
-  featured?: boolean
-  rating?: number
-  reviews?: number
-  owner?: string
-  ownerDetails?: {
-    name: string
-    image: string
-    responseRate: number
-    responseTime: string
-  }
-  reviewsList?: {
-    id: number
-    user: string
-    avatar: string
-    rating: number
-    date: string
-    comment: string
-  }[]
-}
+  emailOwner,
+  fetchAvailability,
+  fetchContactStats,
+  fetchRoom,
+  fetchSession,
+  requestViewing,
+  revealOwnerPhone,
+  saveAvailability,
+  startConversation,
+} from "@/lib/api"
+import { formatDate, parseDate, type Availability, type DaySlots } from "@/lib/availability"
+import { roomStatus } from "@/lib/listing-status"
+import type { ContactStats, RoomDetails, User } from "@/lib/types"
 
 export default function RoomDetailPage() {
   const params = useParams()
@@ -77,7 +56,6 @@ export default function RoomDetailPage() {
   const { toast } = useToast()
   const [room, setRoom] = useState<RoomDetails | null>(null)
   const [loading, setLoading] = useState(true)
-  const [currentImageIndex, setCurrentImageIndex] = useState(0)
   const [isFavorite, setIsFavorite] = useState(false)
   const [darkMode, setDarkMode] = useState(false)
   const [inquiryForm, setInquiryForm] = useState({
@@ -86,10 +64,19 @@ export default function RoomDetailPage() {
     phone: "",
     message: "",
     date: "",
+    time: "",
   })
   const [isLoggedIn, setIsLoggedIn] = useState(false)
-  const [currentUser, setCurrentUser] = useState<{ name: string; email: string } | null>(null)
-  const [showDeleteAlert, setShowDeleteAlert] = useState(false)
+  const [currentUser, setCurrentUser] = useState<User | null>(null)
+  const [availability, setAvailability] = useState<Availability | null>(null)
+  const [slots, setSlots] = useState<DaySlots[]>([])
+  const [showAvailability, setShowAvailability] = useState(false)
+  const [savingAvailability, setSavingAvailability] = useState(false)
+  const [ownerPhone, setOwnerPhone] = useState<string | null>(null)
+  const [showEmail, setShowEmail] = useState(false)
+  const [emailMessage, setEmailMessage] = useState("")
+  const [sendingEmail, setSendingEmail] = useState(false)
+  const [contactStats, setContactStats] = useState<ContactStats | null>(null)
   const [favorites, setFavorites] = useState<number[]>([])
 
   // Check if dark mode is enabled
@@ -107,17 +94,19 @@ export default function RoomDetailPage() {
     }
   }, [darkMode])
 
-  // Load user data from localStorage on initial load
+  // Load the session and saved favorites on initial load
   useEffect(() => {
-    const savedUser = localStorage.getItem("currentUser")
-    if (!savedUser) {
-      // If user is not logged in, redirect to login page
-      router.push("/login")
-      return
-    }
+    fetchSession().then((user) => {
+      if (!user) {
+        // The cookie the middleware let through is no longer valid
+        router.replace(`/login?next=${encodeURIComponent(window.location.pathname)}`)
+        return
+      }
 
-    setCurrentUser(JSON.parse(savedUser))
-    setIsLoggedIn(true)
+      setCurrentUser(user)
+      setIsLoggedIn(true)
+      setInquiryForm((form) => ({ ...form, name: user.name, email: user.email }))
+    })
 
     const savedFavorites = localStorage.getItem("favorites")
     if (savedFavorites) {
@@ -132,108 +121,35 @@ export default function RoomDetailPage() {
 
   // Fetch room data
   useEffect(() => {
-    // Simulate API call
     setLoading(true)
 
-    setTimeout(() => {
-      // This would be a real API call in production
-      // For now, we'll use the ID from the URL to simulate fetching the specific room
-      const id = Number(params.id)
-
-      // Sample data - in a real app, this would come from your API
-      const roomData: RoomDetails = {
-        id: id,
-        title:
-          id === 1
-            ? "Luxury Studio Apartment"
-            : id === 2
-              ? "Cozy Single Room in Shared Flat"
-              : id === 3
-                ? "Spacious 2BHK with Balcony"
-                : `Room #${id}`,
-        rent: id === 1 ? "15000" : id === 2 ? "8000" : id === 3 ? "22000" : "12000",
-        deposit: id === 1 ? "30000" : id === 2 ? "16000" : id === 3 ? "44000" : "24000",
-        description:
-          id === 1
-            ? "Modern studio apartment with premium furnishings, high ceilings, and lots of natural light. Located in the heart of the city with easy access to public transportation. The apartment features a fully equipped kitchen, a comfortable living area, and a spacious bathroom. All utilities are included in the rent, and the building has 24/7 security. Perfect for young professionals or students looking for a convenient and comfortable living space."
-            : "This comfortable and well-maintained room is perfect for anyone looking for a convenient and affordable living space. The property is located in a quiet neighborhood with easy access to public transportation, shopping centers, and restaurants.",
-        images: [
-          "/placeholder.svg?height=600&width=800",
-          "/placeholder.svg?height=600&width=800",
-          "/placeholder.svg?height=600&width=800",
-          "/placeholder.svg?height=600&width=800",
-        ],
-        location: id === 1 ? "Downtown" : id === 2 ? "University Area" : id === 3 ? "East Side" : "Central",
-        amenities:
-          id === 1
-            ? [
-                "WiFi",
-                "AC",
-                "Furnished",
-                "Attached Bathroom",
-                "Kitchen Access",
-                "Parking",
-                "Balcony",
-                "TV",
-                "Washing Machine",
-                "Gym Access",
-              ]
-            : ["WiFi", "Furnished", "Kitchen Access", "Washing Machine"],
-        featured: id === 1 || id === 3,
-        rating: id === 1 ? 4.8 : id === 2 ? 4.2 : id === 3 ? 4.9 : 4.5,
-        reviews: id === 1 ? 24 : id === 2 ? 15 : id === 3 ? 32 : 10,
-        owner: id === 1 || id === 3 ? "admin@example.com" : "john@example.com",
-        ownerDetails: {
-          name: "John Doe",
-          image: "/placeholder.svg?height=100&width=100",
-          responseRate: 95,
-          responseTime: "within a few hours",
-        },
-        reviewsList: [
-          {
-            id: 1,
-            user: "Sarah Johnson",
-            avatar: "/placeholder.svg?height=50&width=50",
-            rating: 5,
-            date: "2 weeks ago",
-            comment:
-              "This place is absolutely amazing! The location is perfect, and the amenities are top-notch. I would definitely recommend it to anyone looking for a comfortable stay.",
-          },
-          {
-            id: 2,
-            user: "Michael Brown",
-            avatar: "/placeholder.svg?height=50&width=50",
-            rating: 4,
-            date: "1 month ago",
-            comment:
-              "Great place overall. The room was clean and well-maintained. The only issue was that the WiFi was a bit slow at times, but everything else was perfect.",
-          },
-          {
-            id: 3,
-            user: "Emily Davis",
-            avatar: "/placeholder.svg?height=50&width=50",
-            rating: 5,
-            date: "2 months ago",
-            comment:
-              "I had a wonderful stay here. The host was very responsive and accommodating. The room was spacious and had all the amenities I needed. Would definitely stay here again!",
-          },
-        ],
-      }
+    fetchRoom(Number(params.id))
+      .then(setRoom)
+      .catch(() => setRoom(null))
+      .finally(() => setLoading(false))
 
-      setRoom(roomData)
-      setLoading(false)
-    }, 1000)
+    fetchAvailability(Number(params.id))
+      .then((result) => {
+        setAvailability(result.availability)
+        setSlots(result.slots)
+      })
+      .catch(() => setSlots([]))
   }, [params.id])
 
-  const handlePrevImage = () => {
-    if (!room) return
-    setCurrentImageIndex((prev) => (prev === 0 ? room.images.length - 1 : prev - 1))
+  // Picks up the recomputed rating and review list after a review is posted
+  const reloadRoom = () => {
+    fetchRoom(Number(params.id))
+      .then(setRoom)
+      .catch(() => {})
   }
 
-  const handleNextImage = () => {
-    if (!room) return
-    setCurrentImageIndex((prev) => (prev === room.images.length - 1 ? 0 : prev + 1))
-  }
+  // Owners see how often tenants have reached out about the listing
+  useEffect(() => {
+    if (!room?.isOwner) return
+    fetchContactStats(room.id)
+      .then(setContactStats)
+      .catch(() => setContactStats(null))
+  }, [room?.id, room?.isOwner])
 
   const toggleFavorite = () => {
     let newFavorites: number[]
@@ -258,23 +174,16 @@ export default function RoomDetailPage() {
     localStorage.setItem("favorites", JSON.stringify(newFavorites))
   }
 
-  const handleDeleteRoom = () => {
-    setShowDeleteAlert(true)
-  }
+  // Undo brings the owner back to the restored listing, wherever they are by then
+  const showRestoredRoom = useCallback((restored: RoomDetails) => router.push(`/room/${restored.id}`), [router])
+  const deleteRoom = useDeleteRoom(showRestoredRoom)
 
-  const confirmDeleteRoom = () => {
-    toast({
-      title: "Room Deleted",
-      description: "Your room has been successfully removed",
-      variant: "default",
-    })
-    router.push("/dashboard")
+  const handleDeleteRoom = async () => {
+    if (room && (await deleteRoom(room))) router.push("/dashboard?tab=my-listings")
   }
 
   const handleEditRoom = () => {
-    // Store the room ID in localStorage to edit it on the home page
-    localStorage.setItem("editRoomId", room?.id?.toString() || "")
-    router.push("/dashboard")
+    if (room) router.push(`/room/${room.id}/edit`)
   }
 
   const handleInquiryChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -284,20 +193,121 @@ export default function RoomDetailPage() {
     })
   }
 
-  const handleInquirySubmit = (e: React.FormEvent) => {
+  const handleInquirySubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    toast({
-      title: "Inquiry Sent",
-      description: "Your inquiry has been sent to the owner. They will contact you soon.",
-      variant: "default",
-    })
-    setInquiryForm({
-      name: "",
-      email: "",
-      phone: "",
-      message: "",
-      date: "",
-    })
+    if (!room) return
+    if (!inquiryForm.date || !inquiryForm.time) {
+      toast({
+        title: "Pick a time",
+        description: "Choose one of the open viewing slots first.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      await requestViewing({
+        roomId: room.id,
+        date: inquiryForm.date,
+        time: inquiryForm.time,
+        phone: inquiryForm.phone || undefined,
+        message: inquiryForm.message || undefined,
+      })
+      toast({
+        title: "Viewing Requested",
+        description: "The owner has been notified. You can follow the request under My Viewings.",
+        variant: "default",
+      })
+      setInquiryForm({ ...inquiryForm, phone: "", message: "", date: "", time: "" })
+      setSlots((await fetchAvailability(room.id)).slots)
+    } catch (error) {
+      toast({
+        title: "Couldn't book viewing",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSaveAvailability = async (next: Availability) => {
+    if (!room) return
+
+    setSavingAvailability(true)
+    try {
+      const result = await saveAvailability(room.id, next)
+      setAvailability(result.availability)
+      setSlots(result.slots)
+      setShowAvailability(false)
+      toast({ title: "Availability Updated", description: "Tenants can now book the new viewing slots." })
+    } catch (error) {
+      toast({
+        title: "Couldn't save availability",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    } finally {
+      setSavingAvailability(false)
+    }
+  }
+
+  const handleChat = async () => {
+    if (!room) return
+
+    // Owners answer tenants from their inbox rather than starting a thread with themselves
+    if (room.isOwner) {
+      router.push("/messages")
+      return
+    }
+
+    try {
+      const conversation = await startConversation(room.id)
+      router.push(`/messages?c=${conversation.id}`)
+    } catch (error) {
+      toast({
+        title: "Couldn't open chat",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCall = async () => {
+    if (!room) return
+
+    try {
+      setOwnerPhone(await revealOwnerPhone(room.id))
+    } catch (error) {
+      toast({
+        title: "Phone number unavailable",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleEmail = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!room) return
+
+    setSendingEmail(true)
+    try {
+      await emailOwner(room.id, emailMessage)
+      toast({
+        title: "Email Sent",
+        description: "The owner will reply to your email address directly.",
+        variant: "default",
+      })
+      setEmailMessage("")
+      setShowEmail(false)
+    } catch (error) {
+      toast({
+        title: "Email not sent",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    } finally {
+      setSendingEmail(false)
+    }
   }
 
   const handleShare = () => {
@@ -334,7 +344,33 @@ export default function RoomDetailPage() {
     )
   }
 
-  const isOwner = isLoggedIn && currentUser?.email === room.owner
+  const isOwner = isLoggedIn && !!room.isOwner
+  const nextSlot = slots[0]
+
+  const formatDay = (date: string) =>
+    parseDate(date).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" })
+  const formatMonths = (months: number) => `${months} ${months === 1 ? "month" : "months"}`
+
+  // Rows for the sidebar's availability summary; optional terms only show when the owner set them
+  const leaseTerms: [string, string][] = [
+    [
+      "Available From",
+      room.availableFrom && room.availableFrom > formatDate(new Date()) ? formatDay(room.availableFrom) : "Immediate",
+    ],
+    ...(room.availableUntil ? [["Available Until", formatDay(room.availableUntil)] as [string, string]] : []),
+    ["Minimum Stay", room.minimumStayMonths ? formatMonths(room.minimumStayMonths) : "Flexible"],
+    ...(room.maximumStayMonths ? [["Maximum Stay", formatMonths(room.maximumStayMonths)] as [string, string]] : []),
+    [
+      "Next Viewing",
+      nextSlot
+        ? `${parseDate(nextSlot.date).toLocaleDateString(undefined, {
+            weekday: "short",
+            day: "numeric",
+            month: "short",
+          })}, ${nextSlot.times[0]}`
+        : "No open slots",
+    ],
+  ]
 
   return (
     <div className={`min-h-screen ${darkMode ? "dark bg-gray-900" : "bg-gray-50"}`}>
@@ -363,10 +399,7 @@ export default function RoomDetailPage() {
             variant="ghost"
             size="sm"
             className="text-white flex items-center hover:bg-white/10"
-            onClick={() => {
-              router.push("/dashboard")
-              localStorage.setItem("activeTab", "favorites")
-            }}
+            onClick={() => router.push("/dashboard?tab=favorites")}
           >
             <Heart className="w-4 h-4 mr-1" /> Wishlist
           </Button>
@@ -395,59 +428,20 @@ export default function RoomDetailPage() {
 
       {/* Image Gallery */}
       <div className="container mx-auto px-4 mb-8">
-        <div className="relative rounded-lg overflow-hidden h-[300px] md:h-[500px] bg-gray-200 dark:bg-gray-800">
-          {room.images.map((image, index) => (
-            <motion.img
-              key={index}
-              src={image}
-              alt={`${room.title} - Image ${index + 1}`}
-              className="absolute inset-0 w-full h-full object-cover"
-              initial={{ opacity: 0 }}
-              animate={{
-                opacity: index === currentImageIndex ? 1 : 0,
-                scale: index === currentImageIndex ? 1 : 1.1,
-              }}
-              transition={{ duration: 0.5 }}
-            />
-          ))}
-
-          {/* Image navigation */}
-          <div className="absolute inset-0 flex items-center justify-between p-4">
-            <Button
-              variant="outline"
-              size="icon"
-              className="rounded-full bg-white/80 dark:bg-black/50 hover:bg-white dark:hover:bg-black/70"
-              onClick={handlePrevImage}
-            >
-              <ChevronLeft className="w-6 h-6" />
-              <span className="sr-only">Previous image</span>
-            </Button>
-            <Button
-              variant="outline"
-              size="icon"
-              className="rounded-full bg-white/80 dark:bg-black/50 hover:bg-white dark:hover:bg-black/70"
-              onClick={handleNextImage}
-            >
-              <ChevronRight className="w-6 h-6" />
-              <span className="sr-only">Next image</span>
-            </Button>
-          </div>
-
-          {/* Image counter */}
-          <div className="absolute bottom-4 right-4 bg-black/60 text-white px-3 py-1 rounded-full text-sm">
-            {currentImageIndex + 1} / {room.images.length}
+        {isOwner && roomStatus(room) !== "published" && (
+          <div className="mb-4 flex flex-wrap items-center gap-2 rounded-lg bg-amber-50 dark:bg-gray-800 p-3 text-sm text-gray-700 dark:text-gray-300">
+            <ListingStatusBadge status={roomStatus(room)} />
+            Only you can see this listing. Publish it again to show it in All Rooms.
           </div>
-
-          {/* Featured badge */}
-          {room.featured && (
-            <div className="absolute top-4 left-4">
-              <Badge className="bg-amber-500 hover:bg-amber-500 text-white">Featured</Badge>
-            </div>
-          )}
-
-          {/* Owner controls */}
+        )}
+        <RoomGallery room={room}>
           {isOwner && (
-            <div className="absolute top-4 right-4 flex gap-2">
+            <>
+              <ListingStatusMenu
+                room={room}
+                onChanged={(updated) => setRoom({ ...room, status: updated.status })}
+                className="h-9 w-9 bg-white/80 hover:bg-white text-gray-800"
+              />
               <Button
                 variant="outline"
                 size="sm"
@@ -464,28 +458,9 @@ export default function RoomDetailPage() {
               >
                 <Trash2 className="h-4 w-4 mr-1" /> Delete
               </Button>
-            </div>
+            </>
           )}
-        </div>
-
-        {/* Thumbnail navigation */}
-        <div className="flex gap-2 mt-4 overflow-x-auto pb-2">
-          {room.images.map((image, index) => (
-            <button
-              key={index}
-              className={`w-20 h-20 rounded-md overflow-hidden flex-shrink-0 border-2 ${
-                index === currentImageIndex ? "border-amber-600 dark:border-amber-400" : "border-transparent"
-              }`}
-              onClick={() => setCurrentImageIndex(index)}
-            >
-              <img
-                src={image || "/placeholder.svg"}
-                alt={`Thumbnail ${index + 1}`}
-                className="w-full h-full object-cover"
-              />
-            </button>
-          ))}
-        </div>
+        </RoomGallery>
       </div>
 
       {/* Room Details */}
@@ -493,162 +468,64 @@ export default function RoomDetailPage() {
         <div className="grid grid-cols-1 gap-6 lg:grid-cols-3 lg:gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2">
-            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start mb-4 gap-2">
-              <div>
-                <h1 className="text-xl sm:text-2xl md:text-3xl font-bold dark:text-white">{room.title}</h1>
-                <div className="flex flex-wrap items-center mt-2 text-gray-600 dark:text-gray-400 text-sm">
-                  <div className="flex items-center mr-4">
-                    <MapPin className="w-4 h-4 mr-1" />
-                    <span>{room.location}</span>
+            <RoomOverview
+              room={room}
+              actions={
+                <>
+                  <Button variant="outline" size="icon" className="rounded-full" onClick={toggleFavorite}>
+                    <Heart
+                      className={`w-5 h-5 ${
+                        isFavorite ? "fill-red-500 text-red-500" : "text-gray-500 dark:text-gray-400"
+                      }`}
+                    />
+                    <span className="sr-only">Add to favorites</span>
+                  </Button>
+                  <Button variant="outline" size="icon" className="rounded-full" onClick={handleShare}>
+                    <Share2 className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+                    <span className="sr-only">Share</span>
+                  </Button>
+                </>
+              }
+              reviews={
+                <>
+                  <div className="flex items-center mb-6">
+                    <div className="flex items-center text-amber-500 text-2xl mr-4">
+                      <Star className="w-6 h-6 fill-current mr-1" />
+                      <span className="font-bold">{room.rating ?? "–"}</span>
+                    </div>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      {room.reviews
+                        ? `Based on ${room.reviews} ${room.reviews === 1 ? "review" : "reviews"}`
+                        : "No ratings yet"}
+                    </span>
                   </div>
 
-                  {room.rating && (
-                    <div className="flex items-center text-amber-500 mt-1 sm:mt-0">
-                      <Star className="w-4 h-4 fill-current" />
-                      <span className="ml-1">{room.rating}</span>
-                      <span className="text-gray-600 dark:text-gray-400 ml-1">({room.reviews} reviews)</span>
-                    </div>
-                  )}
-                </div>
-              </div>
-
-              <div className="flex gap-2 mt-2 sm:mt-0">
-                <Button variant="outline" size="icon" className="rounded-full" onClick={toggleFavorite}>
-                  <Heart
-                    className={`w-5 h-5 ${
-                      isFavorite ? "fill-red-500 text-red-500" : "text-gray-500 dark:text-gray-400"
-                    }`}
-                  />
-                  <span className="sr-only">Add to favorites</span>
-                </Button>
-                <Button variant="outline" size="icon" className="rounded-full" onClick={handleShare}>
-                  <Share2 className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-                  <span className="sr-only">Share</span>
-                </Button>
-              </div>
-            </div>
-
-            <Tabs defaultValue="details" className="mt-6">
-              <TabsList className="mb-4 flex flex-wrap">
-                <TabsTrigger value="details">Details</TabsTrigger>
-                <TabsTrigger value="amenities">Amenities</TabsTrigger>
-                <TabsTrigger value="reviews">Reviews</TabsTrigger>
-                <TabsTrigger value="location">Location</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="details" className="mt-0">
-                <Card>
-                  <CardContent className="p-6">
-                    <div className="grid grid-cols-2 gap-4 mb-6">
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Rent</h3>
-                        <p className="text-xl font-bold text-rose-700 dark:text-rose-400">₹{room.rent}/month</p>
-                      </div>
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Deposit</h3>
-                        <p className="text-xl font-bold text-gray-700 dark:text-gray-300">₹{room.deposit}</p>
-                      </div>
-                    </div>
+                  <RatingBreakdown reviews={room.reviewsList ?? []} />
 
-                    <h3 className="text-lg font-semibold mb-2 dark:text-white">Description</h3>
-                    <p className="text-gray-700 dark:text-gray-300 mb-6 whitespace-pre-line">{room.description}</p>
-
-                    <h3 className="text-lg font-semibold mb-2 dark:text-white">About the Owner</h3>
-                    {room.ownerDetails && (
-                      <div className="flex items-center">
-                        <Avatar className="h-12 w-12">
-                          <AvatarImage src={room.ownerDetails.image} alt={room.ownerDetails.name} />
-                          <AvatarFallback>{room.ownerDetails.name.charAt(0)}</AvatarFallback>
-                        </Avatar>
-                        <div className="ml-4">
-                          <p className="font-medium dark:text-white">{room.ownerDetails.name}</p>
-                          <p className="text-sm text-gray-500 dark:text-gray-400">
-                            Response rate: {room.ownerDetails.responseRate}%
-                          </p>
-                          <p className="text-sm text-gray-500 dark:text-gray-400">
-                            Typically responds {room.ownerDetails.responseTime}
-                          </p>
-                        </div>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-              </TabsContent>
-
-              <TabsContent value="amenities" className="mt-0">
-                <Card>
-                  <CardContent className="p-6">
-                    <h3 className="text-lg font-semibold mb-4 dark:text-white">Amenities</h3>
-                    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-                      {room.amenities.map((amenity) => (
-                        <div key={amenity} className="flex items-center">
-                          <Check className="w-5 h-5 text-green-500 mr-2 flex-shrink-0" />
-                          <span className="text-gray-700 dark:text-gray-300">{amenity}</span>
-                        </div>
-                      ))}
-                    </div>
-                  </CardContent>
-                </Card>
-              </TabsContent>
-
-              <TabsContent value="reviews" className="mt-0">
-                <Card>
-                  <CardContent className="p-6">
-                    <div className="flex items-center mb-6">
-                      <div className="flex items-center text-amber-500 text-2xl mr-4">
-                        <Star className="w-6 h-6 fill-current mr-1" />
-                        <span className="font-bold">{room.rating}</span>
-                      </div>
-                      <span className="text-gray-600 dark:text-gray-400">Based on {room.reviews} reviews</span>
-                    </div>
+                  <ReviewForm roomId={room.id} onSubmitted={reloadRoom} />
 
-                    <div className="space-y-6">
-                      {room.reviewsList?.map((review) => (
-                        <div
-                          key={review.id}
-                          className="border-b border-gray-200 dark:border-gray-700 pb-6 last:border-0"
-                        >
-                          <div className="flex justify-between items-start">
-                            <div className="flex items-center">
-                              <Avatar className="h-10 w-10">
-                                <AvatarImage src={review.avatar} alt={review.user} />
-                                <AvatarFallback>{review.user.charAt(0)}</AvatarFallback>
-                              </Avatar>
-                              <div className="ml-3">
-                                <p className="font-medium dark:text-white">{review.user}</p>
-                                <p className="text-sm text-gray-500 dark:text-gray-400">{review.date}</p>
-                              </div>
-                            </div>
-                            <div className="flex items-center text-amber-500">
-                              {[...Array(5)].map((_, i) => (
-                                <Star key={i} className={`w-4 h-4 ${i < review.rating ? "fill-current" : ""}`} />
-                              ))}
-                            </div>
-                          </div>
-                          <p className="mt-3 text-gray-700 dark:text-gray-300">{review.comment}</p>
-                        </div>
-                      ))}
-                    </div>
-                  </CardContent>
-                </Card>
-              </TabsContent>
-
-              <TabsContent value="location" className="mt-0">
-                <Card>
-                  <CardContent className="p-6">
-                    <h3 className="text-lg font-semibold mb-4 dark:text-white">Location</h3>
-                    <div className="bg-gray-200 dark:bg-gray-700 rounded-lg h-64 flex items-center justify-center">
-                      <p className="text-gray-500 dark:text-gray-400">Map view would be displayed here</p>
-                    </div>
-                    <p className="mt-4 text-gray-700 dark:text-gray-300">
-                      Located in {room.location}, this property offers easy access to public transportation, shopping
-                      centers, and restaurants. The neighborhood is safe and quiet, perfect for students and working
-                      professionals.
-                    </p>
-                  </CardContent>
-                </Card>
-              </TabsContent>
-            </Tabs>
+                  {!room.reviewsList?.length && (
+                    <p className="text-gray-500 dark:text-gray-400 italic">No reviews yet.</p>
+                  )}
+
+                  <div className="space-y-6">
+                    {room.reviewsList?.map((review) => (
+                      <ReviewCard
+                        key={review.id}
+                        review={review}
+                        isOwner={!!room.isOwner}
+                        onReplied={(updated) =>
+                          setRoom({
+                            ...room,
+                            reviewsList: room.reviewsList?.map((r) => (r.id === updated.id ? updated : r)),
+                          })
+                        }
+                      />
+                    ))}
+                  </div>
+                </>
+              }
+            />
           </div>
 
           {/* Sidebar */}
@@ -656,131 +533,199 @@ export default function RoomDetailPage() {
             <Card className="sticky top-4">
               <CardContent className="p-4 sm:p-6">
                 <h3 className="text-xl font-bold mb-4 dark:text-white">Book a Viewing</h3>
-                <form onSubmit={handleInquirySubmit} className="space-y-3">
-                  <div className="grid grid-cols-1 gap-3">
-                    <div>
-                      <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                        Your Name <span className="text-red-500">*</span>
-                      </label>
-                      <Input
-                        id="name"
-                        name="name"
-                        value={inquiryForm.name}
-                        placeholder="Enter your name"
-                        onChange={handleInquiryChange}
-                        required
-                        className="dark:bg-gray-700 dark:border-gray-600"
-                      />
+                {isOwner ? (
+                  <div className="space-y-3 text-sm text-gray-600 dark:text-gray-300">
+                    <p>Tenants book viewings of this room here. Their requests arrive in your dashboard.</p>
+                    <Button
+                      className="w-full bg-amber-500 hover:bg-amber-600 text-white"
+                      onClick={() => setShowAvailability(true)}
+                    >
+                      <Clock className="w-4 h-4 mr-2" />
+                      Manage Availability
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => router.push("/dashboard?tab=viewing-requests")}
+                    >
+                      <Calendar className="w-4 h-4 mr-2" />
+                      Viewing Requests
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleInquirySubmit} className="space-y-3">
+                    <div className="grid grid-cols-1 gap-3">
+                      <div>
+                        <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Your Name <span className="text-red-500">*</span>
+                        </label>
+                        <Input
+                          id="name"
+                          name="name"
+                          value={inquiryForm.name}
+                          placeholder="Enter your name"
+                          onChange={handleInquiryChange}
+                          required
+                          readOnly
+                          className="dark:bg-gray-700 dark:border-gray-600"
+                        />
+                      </div>
+
+                      <div>
+                        <label
+                          htmlFor="email"
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                        >
+                          Email <span className="text-red-500">*</span>
+                        </label>
+                        <Input
+                          id="email"
+                          name="email"
+                          type="email"
+                          value={inquiryForm.email}
+                          placeholder="Enter your email"
+                          onChange={handleInquiryChange}
+                          required
+                          readOnly
+                          className="dark:bg-gray-700 dark:border-gray-600"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-3">
+                      <div>
+                        <label
+                          htmlFor="phone"
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                        >
+                          Phone Number
+                        </label>
+                        <Input
+                          id="phone"
+                          name="phone"
+                          value={inquiryForm.phone}
+                          placeholder="Enter your phone number"
+                          onChange={handleInquiryChange}
+                          className="dark:bg-gray-700 dark:border-gray-600"
+                        />
+                      </div>
                     </div>
 
                     <div>
-                      <label
-                        htmlFor="email"
-                        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-                      >
-                        Email <span className="text-red-500">*</span>
-                      </label>
-                      <Input
-                        id="email"
-                        name="email"
-                        type="email"
-                        value={inquiryForm.email}
-                        placeholder="Enter your email"
-                        onChange={handleInquiryChange}
-                        required
-                        className="dark:bg-gray-700 dark:border-gray-600"
+                      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Viewing Slot <span className="text-red-500">*</span>
+                      </span>
+                      <ViewingSlotPicker
+                        slots={slots}
+                        value={{ date: inquiryForm.date, time: inquiryForm.time }}
+                        onChange={(slot) => setInquiryForm({ ...inquiryForm, ...slot })}
                       />
                     </div>
-                  </div>
 
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                     <div>
                       <label
-                        htmlFor="phone"
+                        htmlFor="message"
                         className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
                       >
-                        Phone Number
-                      </label>
-                      <Input
-                        id="phone"
-                        name="phone"
-                        value={inquiryForm.phone}
-                        placeholder="Enter your phone number"
-                        onChange={handleInquiryChange}
-                        className="dark:bg-gray-700 dark:border-gray-600"
-                      />
-                    </div>
-
-                    <div>
-                      <label htmlFor="date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                        Viewing Date <span className="text-red-500">*</span>
+                        Message
                       </label>
-                      <Input
-                        id="date"
-                        name="date"
-                        type="date"
-                        value={inquiryForm.date}
+                      <Textarea
+                        id="message"
+                        name="message"
+                        value={inquiryForm.message}
+                        placeholder="Any specific questions or requirements?"
+                        rows={2}
                         onChange={handleInquiryChange}
-                        required
                         className="dark:bg-gray-700 dark:border-gray-600"
                       />
                     </div>
-                  </div>
-
-                  <div>
-                    <label
-                      htmlFor="message"
-                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-                    >
-                      Message
-                    </label>
-                    <Textarea
-                      id="message"
-                      name="message"
-                      value={inquiryForm.message}
-                      placeholder="Any specific questions or requirements?"
-                      rows={2}
-                      onChange={handleInquiryChange}
-                      className="dark:bg-gray-700 dark:border-gray-600"
-                    />
-                  </div>
 
-                  <Button type="submit" className="w-full bg-amber-500 hover:bg-amber-600 text-white">
-                    <Calendar className="w-4 h-4 mr-2" />
-                    Schedule Viewing
-                  </Button>
-                </form>
+                    <Button type="submit" className="w-full bg-amber-500 hover:bg-amber-600 text-white">
+                      <Calendar className="w-4 h-4 mr-2" />
+                      Schedule Viewing
+                    </Button>
+                  </form>
+                )}
 
                 <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                   <h4 className="font-medium mb-3 dark:text-white">Contact Options</h4>
-                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-                    <Button variant="outline" className="justify-start dark:text-gray-300 dark:border-gray-600">
-                      <Phone className="w-4 h-4 mr-2" />
-                      Call
-                    </Button>
-                    <Button variant="outline" className="justify-start dark:text-gray-300 dark:border-gray-600">
-                      <MessageCircle className="w-4 h-4 mr-2" />
-                      Chat
-                    </Button>
-                    <Button variant="outline" className="justify-start dark:text-gray-300 dark:border-gray-600">
-                      <Mail className="w-4 h-4 mr-2" />
-                      Email
-                    </Button>
-                  </div>
+                  {isOwner ? (
+                    contactStats && (
+                      <div className="space-y-2 text-sm text-gray-600 dark:text-gray-300">
+                        <p>
+                          {contactStats.calls} {contactStats.calls === 1 ? "call" : "calls"} and {contactStats.emails}{" "}
+                          {contactStats.emails === 1 ? "email" : "emails"} from tenants so far.
+                        </p>
+                        {contactStats.recent.map((contact) => (
+                          <div key={contact.createdAt} className="flex items-center justify-between">
+                            <span className="flex items-center">
+                              {contact.method === "call" ? (
+                                <Phone className="w-3 h-3 mr-2" />
+                              ) : (
+                                <Mail className="w-3 h-3 mr-2" />
+                              )}
+                              {contact.tenantName}
+                            </span>
+                            <span className="text-xs text-gray-500">
+                              {new Date(contact.createdAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                      {ownerPhone ? (
+                        <Button
+                          variant="outline"
+                          className="justify-start dark:text-gray-300 dark:border-gray-600"
+                          asChild
+                        >
+                          <a href={`tel:${ownerPhone.replace(/\s+/g, "")}`}>
+                            <Phone className="w-4 h-4 mr-2" />
+                            {ownerPhone}
+                          </a>
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          className="justify-start dark:text-gray-300 dark:border-gray-600"
+                          onClick={handleCall}
+                        >
+                          <Phone className="w-4 h-4 mr-2" />
+                          Call
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        className="justify-start dark:text-gray-300 dark:border-gray-600"
+                        onClick={handleChat}
+                      >
+                        <MessageCircle className="w-4 h-4 mr-2" />
+                        Chat
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="justify-start dark:text-gray-300 dark:border-gray-600"
+                        onClick={() => setShowEmail(true)}
+                      >
+                        <Mail className="w-4 h-4 mr-2" />
+                        Email
+                      </Button>
+                    </div>
+                  )}
                 </div>
 
                 {/* Add a quick availability checker */}
                 <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                   <h4 className="font-medium mb-3 dark:text-white">Quick Availability Check</h4>
-                  <div className="bg-amber-50 dark:bg-gray-800/50 p-3 rounded-md">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-sm font-medium dark:text-gray-300">Available From</span>
-                      <span className="text-sm font-bold text-amber-700 dark:text-amber-400">Immediate</span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium dark:text-gray-300">Minimum Stay</span>
-                      <span className="text-sm font-bold text-amber-700 dark:text-amber-400">6 months</span>
-                    </div>
+                  <div className="bg-amber-50 dark:bg-gray-800/50 p-3 rounded-md space-y-2">
+                    {leaseTerms.map(([label, value]) => (
+                      <div key={label} className="flex items-center justify-between">
+                        <span className="text-sm font-medium dark:text-gray-300">{label}</span>
+                        <span className="text-sm font-bold text-amber-700 dark:text-amber-400">{value}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </CardContent>
@@ -789,23 +734,48 @@ export default function RoomDetailPage() {
         </div>
       </div>
 
-      {/* Delete Confirmation Dialog */}
-      <AlertDialog open={showDeleteAlert} onOpenChange={setShowDeleteAlert}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete your room listing.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmDeleteRoom} className="bg-red-500 hover:bg-red-600">
-              Delete
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* Email Dialog */}
+      <Dialog open={showEmail} onOpenChange={setShowEmail}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Email the Owner</DialogTitle>
+            <DialogDescription>
+              We&apos;ll forward your message about {room.title}. The owner replies to your email address.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleEmail} className="space-y-3">
+            <Textarea
+              value={emailMessage}
+              placeholder="Introduce yourself and ask anything about the room..."
+              rows={5}
+              onChange={(e) => setEmailMessage(e.target.value)}
+              required
+              className="dark:bg-gray-700 dark:border-gray-600"
+            />
+            <Button
+              type="submit"
+              disabled={sendingEmail || !emailMessage.trim()}
+              className="w-full bg-amber-500 hover:bg-amber-600 text-white"
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              {sendingEmail ? "Sending..." : "Send Email"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Availability Dialog */}
+      <Dialog open={showAvailability} onOpenChange={setShowAvailability}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Viewing Availability</DialogTitle>
+            <DialogDescription>Set when tenants can book a viewing of {room.title}.</DialogDescription>
+          </DialogHeader>
+          {availability && (
+            <AvailabilityEditor initial={availability} saving={savingAvailability} onSave={handleSaveAvailability} />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,4 @@
+export default function Loading() {
+  return null
+}
+
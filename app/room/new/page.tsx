@@ -0,0 +1,317 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { motion } from "framer-motion"
+import { useForm, type FieldErrors } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { ArrowLeft, ArrowRight, Building, Check, Cloud, Home, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Form } from "@/components/ui/form"
+import { useToast } from "@/hooks/use-toast"
+import {
+  AmenitiesFields,
+  BasicsFields,
+  LocationFields,
+  PhotosFields,
+  PricingFields,
+  toFormValues,
+} from "@/components/room-form"
+import { RoomGallery } from "@/components/room-gallery"
+import { RoomOverview } from "@/components/room-overview"
+import { createDraft, fetchDraft, fetchSession, publishDraft, saveDraft } from "@/lib/api"
+import { listingSteps, roomInputSchema, type RoomFormValues } from "@/lib/room-schema"
+import type { RoomDetails, User } from "@/lib/types"
+
+// How long typing has to pause before the draft is saved
+const AUTOSAVE_DELAY_MS = 1000
+const previewStep = listingSteps.length - 1
+
+type SaveState = "idle" | "saving" | "saved" | "error"
+
+export default function NewRoomPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const draftParam = searchParams.get("draft")
+  const { toast } = useToast()
+  const [darkMode, setDarkMode] = useState(false)
+  const [currentUser, setCurrentUser] = useState<User | null>(null)
+  const [step, setStep] = useState(0)
+  const [loaded, setLoaded] = useState(false)
+  const [saveState, setSaveState] = useState<SaveState>("idle")
+  const [uploadingImages, setUploadingImages] = useState(false)
+  const draftId = useRef<number | null>(null)
+  // Saves run one after another so a slow request can't overwrite a newer one
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve())
+  const lastSaved = useRef("")
+
+  const form = useForm<RoomFormValues>({
+    resolver: zodResolver(roomInputSchema),
+    defaultValues: toFormValues(),
+  })
+  const values = form.watch()
+  const snapshot = JSON.stringify({ values, step })
+
+  useEffect(() => {
+    setDarkMode(document.documentElement.classList.contains("dark"))
+    fetchSession().then(setCurrentUser)
+  }, [])
+
+  useEffect(() => {
+    if (darkMode) {
+      document.documentElement.classList.add("dark")
+    } else {
+      document.documentElement.classList.remove("dark")
+    }
+  }, [darkMode])
+
+  // Resume the draft named in the URL. The URL also changes once a new draft is first saved, which needs no reload.
+  useEffect(() => {
+    if (!draftParam || Number(draftParam) === draftId.current) {
+      setLoaded(true)
+      return
+    }
+
+    fetchDraft(Number(draftParam))
+      .then((draft) => {
+        draftId.current = draft.id
+        form.reset(toFormValues(draft.values))
+        setStep(Math.min(draft.step, previewStep))
+        lastSaved.current = JSON.stringify({ values: form.getValues(), step: Math.min(draft.step, previewStep) })
+      })
+      .catch((error) => {
+        toast({ title: "Couldn't open draft", description: (error as Error).message, variant: "destructive" })
+        router.replace("/room/new")
+      })
+      .finally(() => setLoaded(true))
+  }, [draftParam, form, router, toast])
+
+  const persist = (draft: RoomFormValues, draftStep: number) => {
+    const save = saveQueue.current.then(async () => {
+      setSaveState("saving")
+      const saved = draftId.current
+        ? await saveDraft(draftId.current, draft, draftStep)
+        : await createDraft(draft, draftStep)
+      if (!draftId.current) {
+        draftId.current = saved.id
+        router.replace(`/room/new?draft=${saved.id}`, { scroll: false })
+      }
+      lastSaved.current = JSON.stringify({ values: draft, step: draftStep })
+      setSaveState("saved")
+      return saved.id
+    })
+    saveQueue.current = save.catch(() => setSaveState("error"))
+    return save
+  }
+
+  // Autosave once the owner pauses; an untouched form never creates a draft.
+  // The snapshot covers both the values and the step, so it's the only dependency that matters.
+  useEffect(() => {
+    if (!loaded) return
+    if (!lastSaved.current) {
+      lastSaved.current = snapshot
+      return
+    }
+    if (snapshot === lastSaved.current) return
+
+    const timer = setTimeout(() => {
+      persist(form.getValues(), step).catch(() => {})
+    }, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [loaded, snapshot])
+
+  const handleNext = async () => {
+    if (await form.trigger(listingSteps[step].fields)) {
+      setStep((current) => Math.min(current + 1, previewStep))
+      window.scrollTo({ top: 0 })
+    }
+  }
+
+  const handleBack = () => {
+    setStep((current) => Math.max(current - 1, 0))
+    window.scrollTo({ top: 0 })
+  }
+
+  const handlePublish = async (room: RoomFormValues) => {
+    try {
+      const id = await persist(form.getValues(), step)
+      const published = await publishDraft(id, room)
+      toast({ title: "Room Published", description: "Your room is now listed" })
+      router.push(`/room/${published.id}`)
+    } catch (error) {
+      toast({ title: "Failed to publish", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  // A resumed draft can fail validation on an earlier step, so jump back to the first step with an error
+  const handleInvalid = (errors: FieldErrors<RoomFormValues>) => {
+    const failed = listingSteps.findIndex((s) => s.fields.some((field) => errors[field]))
+    if (failed !== -1) setStep(failed)
+    toast({ title: "Almost there", description: "Please fix the highlighted fields", variant: "destructive" })
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    if (step === previewStep) return form.handleSubmit(handlePublish, handleInvalid)(e)
+    e.preventDefault()
+    handleNext()
+  }
+
+  // The preview is rendered with the same components as the published listing
+  const preview: RoomDetails = {
+    ...values,
+    id: draftId.current ?? 0,
+    ownerDetails: currentUser ? { name: currentUser.name } : undefined,
+  }
+
+  return (
+    <div className={`min-h-screen ${darkMode ? "dark bg-gray-900" : "bg-gray-50"}`}>
+      {/* Navbar */}
+      <motion.nav
+        initial={{ y: -50, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ duration: 0.5 }}
+        className="bg-gradient-to-r from-amber-800 to-rose-900 dark:from-gray-900 dark:to-gray-800 text-white p-4 flex flex-wrap justify-between items-center shadow-lg"
+      >
+        <div className="flex items-center">
+          <Building className="h-6 w-6 text-amber-400 mr-2" />
+          <h1 className="text-xl font-bold">Premium Room Finder</h1>
+        </div>
+        <div className="flex flex-wrap space-x-2 items-center mt-2 sm:mt-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white flex items-center hover:bg-white/10"
+            onClick={() => router.push("/dashboard?tab=my-listings")}
+          >
+            <Home className="w-4 h-4 mr-1" /> Home
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10"
+            onClick={() => setDarkMode(!darkMode)}
+          >
+            {darkMode ? "Light" : "Dark"}
+          </Button>
+        </div>
+      </motion.nav>
+
+      <div className={`container mx-auto px-4 py-8 ${step === previewStep ? "" : "max-w-2xl"}`}>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+          <h2 className="text-2xl font-bold dark:text-white">List a Room</h2>
+          <span className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+            {saveState === "saving" && (
+              <>
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" /> Saving...
+              </>
+            )}
+            {saveState === "saved" && (
+              <>
+                <Cloud className="w-4 h-4 mr-1" /> Draft saved
+              </>
+            )}
+            {saveState === "error" && <span className="text-red-500">Couldn't save draft</span>}
+          </span>
+        </div>
+
+        {/* Step indicator; completed steps can be revisited */}
+        <ol className="flex flex-wrap gap-2 mb-6">
+          {listingSteps.map((s, index) => (
+            <li key={s.title}>
+              <button
+                type="button"
+                disabled={index >= step}
+                onClick={() => setStep(index)}
+                className={`flex items-center rounded-full px-3 py-1 text-sm ${
+                  index === step
+                    ? "bg-amber-500 text-white"
+                    : index < step
+                      ? "bg-amber-100 text-amber-800 dark:bg-gray-700 dark:text-amber-400"
+                      : "bg-gray-200 text-gray-500 dark:bg-gray-800 dark:text-gray-400"
+                }`}
+              >
+                {index < step && <Check className="w-3 h-3 mr-1" />}
+                {index + 1}. {s.title}
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {!loaded ? (
+          <p className="text-gray-500 dark:text-gray-400">Loading draft...</p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={handleSubmit} noValidate>
+              {step === previewStep ? (
+                <>
+                  <div className="mb-8">
+                    <RoomGallery room={preview} />
+                  </div>
+                  <div className="grid grid-cols-1 gap-6 lg:grid-cols-3 lg:gap-8">
+                    <div className="lg:col-span-2">
+                      <RoomOverview room={preview} />
+                    </div>
+                    <div>
+                      <Card className="sticky top-4">
+                        <CardContent className="p-4 sm:p-6 space-y-4">
+                          <h3 className="text-xl font-bold dark:text-white">Ready to publish?</h3>
+                          <p className="text-sm text-gray-600 dark:text-gray-300">
+                            This is how tenants will see your listing. Go back to change anything, or publish it
+                            now.
+                          </p>
+                          <Button
+                            type="submit"
+                            disabled={form.formState.isSubmitting}
+                            className="w-full bg-rose-700 hover:bg-rose-800 text-white"
+                          >
+                            {form.formState.isSubmitting ? "Publishing..." : "Publish Listing"}
+                          </Button>
+                          <Button type="button" variant="outline" className="w-full" onClick={handleBack}>
+                            <ArrowLeft className="w-4 h-4 mr-2" /> Back
+                          </Button>
+                        </CardContent>
+                      </Card>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <Card className="dark:bg-gray-800 dark:border-gray-700">
+                  <CardContent className="p-6 space-y-4 dark:text-white">
+                    {step === 0 && <BasicsFields />}
+                    {step === 1 && <PricingFields />}
+                    {step === 2 && <AmenitiesFields />}
+                    {step === 3 && <PhotosFields onUploadingChange={setUploadingImages} />}
+                    {step === 4 && <LocationFields />}
+
+                    <div className="flex justify-between pt-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        disabled={step === 0}
+                        onClick={handleBack}
+                        className="dark:text-gray-300 dark:border-gray-600"
+                      >
+                        <ArrowLeft className="w-4 h-4 mr-2" /> Back
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={uploadingImages}
+                        className="bg-amber-500 hover:bg-amber-600 text-white"
+                      >
+                        {step === previewStep - 1 ? "Preview" : "Next"} <ArrowRight className="w-4 h-4 ml-2" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </form>
+          </Form>
+        )}
+      </div>
+    </div>
+  )
+}
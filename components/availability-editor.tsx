@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { Calendar } from "@/components/ui/calendar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { formatDate, parseDate, weekdayNames, type Availability } from "@/lib/availability"
+
+interface AvailabilityEditorProps {
+  initial: Availability
+  saving?: boolean
+  onSave: (availability: Availability) => void
+}
+
+export function AvailabilityEditor({ initial, saving, onSave }: AvailabilityEditorProps) {
+  const [windows, setWindows] = useState(initial.windows)
+  const [blackoutDates, setBlackoutDates] = useState(initial.blackoutDates)
+
+  const updateWindow = (index: number, changes: Partial<Availability["windows"][number]>) => {
+    setWindows(windows.map((window, i) => (i === index ? { ...window, ...changes } : window)))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="font-medium mb-1 dark:text-white">Weekly viewing hours</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Tenants can book 30-minute viewings inside these windows.
+        </p>
+
+        <div className="space-y-2">
+          {windows.map((window, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={String(window.weekday)}
+                onValueChange={(value) => updateWindow(index, { weekday: Number(value) })}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekdayNames.map((name, weekday) => (
+                    <SelectItem key={name} value={String(weekday)}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="time"
+                className="w-28"
+                value={window.start}
+                onChange={(e) => updateWindow(index, { start: e.target.value })}
+              />
+              <span className="text-gray-500">to</span>
+              <Input
+                type="time"
+                className="w-28"
+                value={window.end}
+                onChange={(e) => updateWindow(index, { end: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-red-500"
+                onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+                <span className="sr-only">Remove window</span>
+              </Button>
+            </div>
+          ))}
+          {windows.length === 0 && (
+            <p className="text-sm italic text-gray-500 dark:text-gray-400">No hours set, so no viewings can be booked.</p>
+          )}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-3"
+          onClick={() => setWindows([...windows, { weekday: 1, start: "10:00", end: "18:00" }])}
+        >
+          <Plus className="w-4 h-4 mr-1" /> Add window
+        </Button>
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-1 dark:text-white">Blackout dates</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Select the days you can&apos;t show the room, such as holidays.
+        </p>
+        <Calendar
+          mode="multiple"
+          selected={blackoutDates.map(parseDate)}
+          onSelect={(days) => setBlackoutDates((days ?? []).map(formatDate))}
+          disabled={{ before: new Date() }}
+          className="rounded-md border dark:border-gray-600 w-fit"
+        />
+      </div>
+
+      <Button
+        className="w-full bg-amber-500 hover:bg-amber-600 text-white"
+        disabled={saving}
+        onClick={() => onSave({ windows, blackoutDates })}
+      >
+        {saving ? "Saving..." : "Save Availability"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { FileText, Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { deleteDraft, fetchDrafts } from "@/lib/api"
+import { listingSteps } from "@/lib/room-schema"
+import type { RoomDraft } from "@/lib/types"
+
+function formatEdited(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+interface DraftsListProps {
+  // Say so when there are no drafts, rather than rendering nothing
+  showEmpty?: boolean
+}
+
+// Unfinished listings from the wizard, shown above the owner's rooms in My Listings
+export function DraftsList({ showEmpty = false }: DraftsListProps) {
+  const { toast } = useToast()
+  const [drafts, setDrafts] = useState<RoomDraft[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchDrafts()
+      .then((result) => {
+        if (!cancelled) setDrafts(result)
+      })
+      .catch((error) => {
+        toast({ title: "Failed to load drafts", description: error.message, variant: "destructive" })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [toast])
+
+  const handleDelete = async (draft: RoomDraft) => {
+    try {
+      await deleteDraft(draft.id)
+      setDrafts((current) => current?.filter((d) => d.id !== draft.id) ?? null)
+      toast({ title: "Draft deleted", description: draft.values.title || "Untitled draft" })
+    } catch (error) {
+      toast({ title: "Couldn't delete draft", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  if (!drafts) return null
+  if (drafts.length === 0) {
+    return showEmpty ? (
+      <p className="italic text-center text-gray-500 dark:text-gray-400 text-xl py-16">
+        No drafts. Listings you start with Add Room are saved here until you publish them.
+      </p>
+    ) : null
+  }
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-lg font-semibold mb-3 dark:text-white">Drafts</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {drafts.map((draft) => (
+          <Card key={draft.id} className="dark:bg-gray-800 dark:border-gray-700">
+            <CardContent className="p-4 flex flex-col gap-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-center min-w-0">
+                  <FileText className="w-4 h-4 mr-2 flex-shrink-0 text-amber-500" />
+                  <h4 className="font-medium truncate dark:text-white">{draft.values.title || "Untitled draft"}</h4>
+                </div>
+                <Badge variant="secondary" className="flex-shrink-0">
+                  {listingSteps[draft.step]?.title ?? "Basics"}
+                </Badge>
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Last edited {formatEdited(draft.updatedAt)}</p>
+              <div className="flex gap-2">
+                <Button asChild size="sm" className="flex-1 bg-amber-500 hover:bg-amber-600 text-white">
+                  <Link href={`/room/new?draft=${draft.id}`}>Continue</Link>
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-red-500 dark:border-gray-600"
+                  onClick={() => handleDelete(draft)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span className="sr-only">Delete draft</span>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
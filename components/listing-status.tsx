@@ -0,0 +1,97 @@
+"use client"
+
+import { useState } from "react"
+import { Archive, CheckCircle, Eye, MoreVertical, PauseCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import { changeRoomStatus } from "@/lib/api"
+import { availableStatusActions, roomStatus, roomStatusLabel, statusActions } from "@/lib/listing-status"
+import type { RoomDetails, RoomStatus, RoomStatusAction } from "@/lib/types"
+
+const statusStyles: Record<RoomStatus, string> = {
+  published: "bg-green-100 text-green-800 hover:bg-green-100",
+  paused: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  rented: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  archived: "bg-gray-200 text-gray-700 hover:bg-gray-200",
+}
+
+const actionIcons: Record<RoomStatusAction, typeof Eye> = {
+  publish: Eye,
+  pause: PauseCircle,
+  rent: CheckCircle,
+  archive: Archive,
+}
+
+export function ListingStatusBadge({ status }: { status: RoomStatus }) {
+  return <Badge className={statusStyles[status]}>{roomStatusLabel(status)}</Badge>
+}
+
+interface ListingStatusMenuProps {
+  room: RoomDetails
+  onChanged: (room: RoomDetails) => void
+  className?: string
+}
+
+// Owner menu for pausing, renting out, archiving and republishing a listing
+export function ListingStatusMenu({ room, onChanged, className }: ListingStatusMenuProps) {
+  const { toast } = useToast()
+  const [busy, setBusy] = useState(false)
+  const status = roomStatus(room)
+
+  const handleAction = async (action: RoomStatusAction) => {
+    setBusy(true)
+    try {
+      const updated = await changeRoomStatus(room.id, action)
+      onChanged(updated)
+      toast({
+        title: `Listing ${roomStatusLabel(roomStatus(updated)).toLowerCase()}`,
+        description:
+          roomStatus(updated) === "published"
+            ? "Tenants can find it in All Rooms again."
+            : "It's hidden from All Rooms until you publish it again.",
+      })
+    } catch (error) {
+      toast({ title: "Couldn't change status", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          disabled={busy}
+          className={className}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <MoreVertical className="h-4 w-4" />
+          <span className="sr-only">Change listing status</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel>Status: {roomStatusLabel(status)}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {availableStatusActions(status).map((action) => {
+          const Icon = actionIcons[action]
+          return (
+            <DropdownMenuItem key={action} onClick={() => handleAction(action)}>
+              <Icon className="h-4 w-4 mr-2" /> {statusActions[action].label}
+            </DropdownMenuItem>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import "leaflet/dist/leaflet.css"
+
+import L from "leaflet"
+import { CircleMarker, MapContainer, Marker, Popup, TileLayer, Tooltip } from "react-leaflet"
+import { tileAttribution, tileUrl, type Coordinates, type PointOfInterest } from "@/lib/geo"
+
+interface LocationMapProps {
+  position: Coordinates
+  title: string
+  places: PointOfInterest[]
+  className?: string
+}
+
+// Leaflet's default marker images don't survive bundling, so the pin is drawn in CSS
+export const roomPinIcon = L.divIcon({
+  className: "",
+  html: '<div class="h-6 w-6 -translate-x-1/2 -translate-y-full rounded-full rounded-br-none rotate-45 bg-rose-700 border-2 border-white shadow-lg"></div>',
+  iconSize: [0, 0],
+})
+
+const placeColours: Record<PointOfInterest["category"], string> = {
+  transit: "#2563eb",
+  shopping: "#d97706",
+  food: "#dc2626",
+  health: "#16a34a",
+  education: "#7c3aed",
+  park: "#059669",
+}
+
+export default function LocationMap({ position, title, places, className }: LocationMapProps) {
+  return (
+    <MapContainer center={[position.lat, position.lng]} zoom={14} scrollWheelZoom={false} className={className}>
+      <TileLayer url={tileUrl} attribution={tileAttribution} />
+      <Marker position={[position.lat, position.lng]} icon={roomPinIcon}>
+        <Popup>{title}</Popup>
+      </Marker>
+      {places.map((place) => (
+        <CircleMarker
+          key={place.name}
+          center={[place.coordinates.lat, place.coordinates.lng]}
+          radius={6}
+          pathOptions={{ color: placeColours[place.category], fillOpacity: 0.8 }}
+        >
+          <Tooltip>{place.name}</Tooltip>
+        </CircleMarker>
+      ))}
+    </MapContainer>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, ChevronUp, GripVertical, Star, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { thumbnailUrl } from "@/lib/images"
+import type { RoomDetails } from "@/lib/types"
+
+type Photos = Pick<RoomDetails, "images" | "imageCaptions">
+
+interface PhotoManagerProps {
+  value: Photos
+  onChange: (value: Photos) => void
+}
+
+function move<T>(items: T[], from: number, to: number) {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+// Ordered list of a listing's photos. Drag or use the arrows to reorder; the first photo is the cover.
+export function PhotoManager({ value, onChange }: PhotoManagerProps) {
+  const { images, imageCaptions = {} } = value
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  const reorder = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= images.length) return
+    onChange({ images: move(images, from, to), imageCaptions })
+  }
+
+  const remove = (index: number) => {
+    const remaining = images.filter((_, i) => i !== index)
+    // The same URL can appear twice, so only drop the caption once no copy is left
+    const captions = Object.fromEntries(Object.entries(imageCaptions).filter(([src]) => remaining.includes(src)))
+    onChange({ images: remaining, imageCaptions: captions })
+  }
+
+  const setCaption = (src: string, caption: string) => {
+    onChange({ images, imageCaptions: { ...imageCaptions, [src]: caption } })
+  }
+
+  if (!images.length) return null
+
+  return (
+    <ul className="mt-2 space-y-2">
+      {images.map((src, index) => (
+        <li
+          // Keyed by URL rather than position so the dragged row isn't remounted as it moves
+          key={`${src}#${images.slice(0, index).filter((other) => other === src).length}`}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move"
+            e.dataTransfer.setData("text/plain", String(index))
+            setDragIndex(index)
+          }}
+          onDragOver={(e) => {
+            e.preventDefault()
+            // Move the dragged photo as it passes over others so the list previews the new order
+            if (dragIndex !== null && dragIndex !== index) {
+              reorder(dragIndex, index)
+              setDragIndex(index)
+            }
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          className={`flex items-center gap-2 rounded-md border p-2 bg-white dark:bg-gray-700 dark:border-gray-600 ${
+            dragIndex === index ? "opacity-50" : ""
+          }`}
+        >
+          <GripVertical className="w-4 h-4 flex-shrink-0 cursor-grab text-gray-400" />
+          <div className="relative w-16 h-12 flex-shrink-0">
+            <img
+              src={thumbnailUrl(src) || "/placeholder.svg"}
+              alt={imageCaptions[src] || `Photo ${index + 1}`}
+              className="w-full h-full object-cover rounded"
+            />
+            {index === 0 && (
+              <span className="absolute inset-x-0 bottom-0 rounded-b bg-amber-500 text-center text-[10px] text-white">
+                Cover
+              </span>
+            )}
+          </div>
+          <Input
+            value={imageCaptions[src] ?? ""}
+            placeholder="Caption (also used as alt text)"
+            maxLength={200}
+            onChange={(e) => setCaption(src, e.target.value)}
+            className="h-8 text-sm dark:bg-gray-800 dark:border-gray-600"
+          />
+          <div className="flex flex-shrink-0">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={index === 0}
+              onClick={() => reorder(index, index - 1)}
+            >
+              <ChevronUp className="w-4 h-4" />
+              <span className="sr-only">Move earlier</span>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={index === images.length - 1}
+              onClick={() => reorder(index, index + 1)}
+            >
+              <ChevronDown className="w-4 h-4" />
+              <span className="sr-only">Move later</span>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-amber-500"
+              disabled={index === 0}
+              onClick={() => reorder(index, 0)}
+            >
+              <Star className={`w-4 h-4 ${index === 0 ? "fill-current" : ""}`} />
+              <span className="sr-only">Use as cover</span>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-red-500"
+              onClick={() => remove(index)}
+            >
+              <X className="w-4 h-4" />
+              <span className="sr-only">Remove photo</span>
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
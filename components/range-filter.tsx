@@ -0,0 +1,77 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Slider } from "@/components/ui/slider"
+import type { NumberRange } from "@/lib/filters"
+
+interface RangeFilterProps {
+  label: string
+  // Upper end of the slider track; inputs may still go beyond it
+  bound: number
+  step?: number
+  value: NumberRange
+  onApply: (range: NumberRange) => void
+}
+
+export function RangeFilter({ label, bound, step = 500, value, onApply }: RangeFilterProps) {
+  const [min, setMin] = useState(value.min?.toString() ?? "")
+  const [max, setMax] = useState(value.max?.toString() ?? "")
+
+  // Keep the draft in sync when the filter is changed elsewhere (e.g. a chip is removed)
+  useEffect(() => {
+    setMin(value.min?.toString() ?? "")
+    setMax(value.max?.toString() ?? "")
+  }, [value.min, value.max])
+
+  const sliderValue = [min === "" ? 0 : Number(min), max === "" ? bound : Math.min(Number(max), bound)]
+
+  const handleApply = () => {
+    let range: NumberRange = {
+      min: min === "" || Number(min) <= 0 ? undefined : Number(min),
+      max: max === "" ? undefined : Number(max),
+    }
+    if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+      range = { min: range.max, max: range.min }
+    }
+    onApply(range)
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</h4>
+      <Slider
+        min={0}
+        max={bound}
+        step={step}
+        value={sliderValue}
+        onValueChange={([low, high]) => {
+          setMin(low === 0 ? "" : low.toString())
+          setMax(high === bound ? "" : high.toString())
+        }}
+        className="max-w-sm"
+      />
+      <div className="flex items-center gap-4">
+        <Input
+          type="number"
+          placeholder="Min"
+          value={min}
+          onChange={(e) => setMin(e.target.value)}
+          className="w-24 dark:bg-gray-700 dark:border-gray-600"
+        />
+        <span className="dark:text-white">to</span>
+        <Input
+          type="number"
+          placeholder="Max"
+          value={max}
+          onChange={(e) => setMax(e.target.value)}
+          className="w-24 dark:bg-gray-700 dark:border-gray-600"
+        />
+        <Button size="sm" onClick={handleApply}>
+          Apply
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { Star } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { reviewCategories, summariseRatings } from "@/lib/ratings"
+import type { Review } from "@/lib/types"
+
+interface RatingBreakdownProps {
+  reviews: Review[]
+}
+
+export function RatingBreakdown({ reviews }: RatingBreakdownProps) {
+  if (!reviews.length) return null
+
+  const { distribution, categories } = summariseRatings(reviews)
+  const scoredCategories = reviewCategories.filter(({ key }) => categories[key] !== undefined)
+
+  return (
+    <div className="grid md:grid-cols-2 gap-x-10 gap-y-6 mb-8">
+      <div className="space-y-2">
+        {[5, 4, 3, 2, 1].map((stars) => {
+          const count = distribution[stars - 1]
+          return (
+            <div key={stars} className="flex items-center gap-3 text-sm">
+              <span className="flex items-center w-8 text-gray-600 dark:text-gray-400">
+                {stars}
+                <Star className="w-3 h-3 ml-1 fill-current text-amber-500" />
+              </span>
+              <Progress
+                value={(count / reviews.length) * 100}
+                className="h-2 flex-1"
+                aria-label={`${stars} star reviews`}
+              />
+              <span className="w-6 text-right text-gray-500 dark:text-gray-400">{count}</span>
+            </div>
+          )
+        })}
+      </div>
+
+      {scoredCategories.length > 0 && (
+        <div className="space-y-2">
+          {scoredCategories.map(({ key, label }) => {
+            const score = categories[key] ?? 0
+            return (
+              <div key={key} className="flex items-center gap-3 text-sm">
+                <span className="w-40 text-gray-600 dark:text-gray-400">{label}</span>
+                <Progress value={(score / 5) * 100} className="h-2 flex-1" aria-label={label} />
+                <span className="w-8 text-right font-medium dark:text-white">{score.toFixed(1)}</span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Flag, MessageCircle, Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { flagReview, replyToReview } from "@/lib/api"
+import type { Review } from "@/lib/types"
+
+interface ReviewCardProps {
+  review: Review
+  // Whether the logged-in user owns the room and may reply
+  isOwner: boolean
+  onReplied: (review: Review) => void
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { day: "numeric", month: "long", year: "numeric" })
+}
+
+export function ReviewCard({ review, isOwner, onReplied }: ReviewCardProps) {
+  const { toast } = useToast()
+  const [replying, setReplying] = useState(false)
+  const [reply, setReply] = useState("")
+  const [showReport, setShowReport] = useState(false)
+  const [reason, setReason] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    try {
+      onReplied(await replyToReview(review.id, reply))
+      setReplying(false)
+      setReply("")
+      toast({ title: "Reply Posted", description: "Your reply is now shown under the review." })
+    } catch (error) {
+      toast({ title: "Reply not posted", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleReport = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    try {
+      await flagReview(review.id, reason)
+      setShowReport(false)
+      setReason("")
+      toast({ title: "Review Reported", description: "Thanks, our moderators will take a look." })
+    } catch (error) {
+      toast({ title: "Report not sent", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="border-b border-gray-200 dark:border-gray-700 pb-6 last:border-0">
+      <div className="flex justify-between items-start">
+        <div className="flex items-center">
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={review.avatar} alt={review.user} />
+            <AvatarFallback>{review.user.charAt(0)}</AvatarFallback>
+          </Avatar>
+          <div className="ml-3">
+            <p className="font-medium dark:text-white">{review.user}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{formatDate(review.date)}</p>
+          </div>
+        </div>
+        <div className="flex items-center text-amber-500">
+          {[...Array(5)].map((_, i) => (
+            <Star key={i} className={`w-4 h-4 ${i < review.rating ? "fill-current" : ""}`} />
+          ))}
+        </div>
+      </div>
+      <p className="mt-3 text-gray-700 dark:text-gray-300">{review.comment}</p>
+
+      {review.reply && (
+        <div className="mt-4 ml-6 border-l-2 border-amber-400 pl-4">
+          <p className="text-sm font-medium dark:text-white">
+            Response from the owner
+            <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+              {formatDate(review.reply.createdAt)}
+            </span>
+          </p>
+          <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">{review.reply.text}</p>
+        </div>
+      )}
+
+      {replying && (
+        <form onSubmit={handleReply} className="mt-4 ml-6 space-y-2">
+          <Textarea
+            value={reply}
+            placeholder="Thank the tenant or respond to their feedback..."
+            rows={3}
+            onChange={(e) => setReply(e.target.value)}
+            required
+            className="dark:bg-gray-700 dark:border-gray-600"
+          />
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              size="sm"
+              disabled={submitting || !reply.trim()}
+              className="bg-amber-500 hover:bg-amber-600 text-white"
+            >
+              {submitting ? "Posting..." : "Post Reply"}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setReplying(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        {isOwner && !review.reply && !replying && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-amber-700 dark:text-amber-400"
+            onClick={() => setReplying(true)}
+          >
+            <MessageCircle className="w-4 h-4 mr-1" /> Reply
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-gray-500 dark:text-gray-400"
+          onClick={() => setShowReport(true)}
+        >
+          <Flag className="w-4 h-4 mr-1" /> Report
+        </Button>
+      </div>
+
+      <Dialog open={showReport} onOpenChange={setShowReport}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Report Review</DialogTitle>
+            <DialogDescription>
+              Tell our moderators why {review.user}&apos;s review breaks the rules, for example abuse, spam or
+              personal details.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReport} className="space-y-3">
+            <Textarea
+              value={reason}
+              placeholder="What's wrong with this review?"
+              rows={4}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              className="dark:bg-gray-700 dark:border-gray-600"
+            />
+            <Button
+              type="submit"
+              disabled={submitting || !reason.trim()}
+              className="w-full bg-amber-500 hover:bg-amber-600 text-white"
+            >
+              <Flag className="w-4 h-4 mr-2" />
+              {submitting ? "Sending..." : "Send Report"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { fetchReviewEligibility, postReview } from "@/lib/api"
+import { parseScores, reviewCategories, type ReviewCategory } from "@/lib/ratings"
+import type { ReviewEligibility } from "@/lib/types"
+
+interface ReviewFormProps {
+  roomId: number
+  onSubmitted: () => void
+}
+
+function StarInput({ label, value, size, onChange }: {
+  label: string
+  value: number
+  size: string
+  onChange: (value: number) => void
+}) {
+  const [hovered, setHovered] = useState(0)
+
+  return (
+    <div className="flex items-center gap-1" onMouseLeave={() => setHovered(0)}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          onMouseEnter={() => setHovered(star)}
+          className="text-amber-500"
+        >
+          <Star className={`${size} ${star <= (hovered || value) ? "fill-current" : ""}`} />
+          <span className="sr-only">
+            {label}: {star} stars
+          </span>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export function ReviewForm({ roomId, onSubmitted }: ReviewFormProps) {
+  const { toast } = useToast()
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(null)
+  const [rating, setRating] = useState(0)
+  const [scores, setScores] = useState<Partial<Record<ReviewCategory, number>>>({})
+  const [comment, setComment] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchReviewEligibility(roomId)
+      .then(setEligibility)
+      .catch(() => setEligibility(null))
+  }, [roomId])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const completeScores = parseScores(scores)
+    if (!rating || !completeScores) {
+      toast({
+        title: "Pick a rating",
+        description: "Choose between 1 and 5 stars overall and for every category.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      await postReview(roomId, { rating, scores: completeScores, comment })
+      toast({ title: "Review Posted", description: "Thanks for sharing your experience!" })
+      setEligibility({ canReview: false, reason: "You've already reviewed this room." })
+      onSubmitted()
+    } catch (error) {
+      toast({ title: "Review not posted", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!eligibility) return null
+
+  if (!eligibility.canReview) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">{eligibility.reason}</p>
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-8 space-y-3 rounded-lg bg-amber-50 dark:bg-gray-800/50 p-4">
+      <h4 className="font-medium dark:text-white">Write a review</h4>
+      <StarInput label="Overall" value={rating} size="w-6 h-6" onChange={setRating} />
+      <div className="grid sm:grid-cols-2 gap-x-6 gap-y-2">
+        {reviewCategories.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between gap-3">
+            <span className="text-sm text-gray-600 dark:text-gray-300">{label}</span>
+            <StarInput
+              label={label}
+              value={scores[key] ?? 0}
+              size="w-4 h-4"
+              onChange={(value) => setScores((current) => ({ ...current, [key]: value }))}
+            />
+          </div>
+        ))}
+      </div>
+      <Textarea
+        value={comment}
+        placeholder="How was the room, the area and the owner?"
+        rows={3}
+        onChange={(e) => setComment(e.target.value)}
+        required
+        className="bg-white dark:bg-gray-700 dark:border-gray-600"
+      />
+      <Button type="submit" disabled={submitting} className="bg-amber-500 hover:bg-amber-600 text-white">
+        {submitting ? "Posting..." : "Post Review"}
+      </Button>
+    </form>
+  )
+}
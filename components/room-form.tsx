@@ -0,0 +1,413 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useForm, useFormContext } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { PhotoManager } from "@/components/photo-manager"
+import { useToast } from "@/hooks/use-toast"
+import { uploadImages } from "@/lib/api"
+import { roomAmenities, roomInputSchema, roomLocations, type RoomFormValues } from "@/lib/room-schema"
+import type { RoomDetails, RoomInput } from "@/lib/types"
+
+const labelClass = "text-gray-700 dark:text-gray-300"
+const inputClass = "dark:bg-gray-700 dark:border-gray-600"
+
+// Only the fields an owner edits; ratings, ownership and timestamps are managed by the server
+export function toFormValues(room?: Partial<RoomDetails | RoomInput>): RoomFormValues {
+  return {
+    title: room?.title ?? "",
+    rent: room?.rent ?? "",
+    deposit: room?.deposit ?? "",
+    description: room?.description ?? "",
+    location: room?.location ?? "",
+    address: room?.address ?? "",
+    amenities: room?.amenities ?? [],
+    images: room?.images ?? [],
+    imageCaptions: room?.imageCaptions,
+    availableFrom: room?.availableFrom,
+    availableUntil: room?.availableUntil,
+    minimumStayMonths: room?.minimumStayMonths,
+    maximumStayMonths: room?.maximumStayMonths,
+  }
+}
+
+// Empty number inputs clear the value rather than submitting 0
+const toMonths = (value: string) => (value === "" ? undefined : Number(value))
+
+// The field groups below read the form from context, so they must be rendered inside <Form>
+
+export function BasicsFields() {
+  const form = useFormContext<RoomFormValues>()
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="title"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>
+              Title <span className="text-red-500">*</span>
+            </FormLabel>
+            <FormControl>
+              <Input placeholder="e.g., Cozy Single Room in Central Location" className={inputClass} {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="description"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>Description</FormLabel>
+            <FormControl>
+              <Textarea
+                placeholder="Describe the room, amenities, and location..."
+                rows={3}
+                className={inputClass}
+                {...field}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  )
+}
+
+export function PricingFields() {
+  const form = useFormContext<RoomFormValues>()
+  const availableFrom = form.watch("availableFrom")
+  const minimumStayMonths = form.watch("minimumStayMonths")
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <FormField
+        control={form.control}
+        name="rent"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>
+              Monthly Rent (₹) <span className="text-red-500">*</span>
+            </FormLabel>
+            <FormControl>
+              <Input type="number" min={1} placeholder="e.g., 5000" className={inputClass} {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="deposit"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>
+              Deposit (₹) <span className="text-red-500">*</span>
+            </FormLabel>
+            <FormControl>
+              <Input type="number" min={0} placeholder="e.g., 10000" className={inputClass} {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="availableFrom"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>Available From</FormLabel>
+            <FormControl>
+              <Input
+                type="date"
+                className={inputClass}
+                {...field}
+                value={field.value ?? ""}
+                onChange={(e) => field.onChange(e.target.value || undefined)}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="availableUntil"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>Available Until</FormLabel>
+            <FormControl>
+              <Input
+                type="date"
+                min={availableFrom}
+                className={inputClass}
+                {...field}
+                value={field.value ?? ""}
+                onChange={(e) => field.onChange(e.target.value || undefined)}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="minimumStayMonths"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>Minimum Stay (months)</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                min={1}
+                placeholder="No minimum"
+                className={inputClass}
+                {...field}
+                value={field.value ?? ""}
+                onChange={(e) => field.onChange(toMonths(e.target.value))}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="maximumStayMonths"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>Maximum Stay (months)</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                min={minimumStayMonths ?? 1}
+                placeholder="No maximum"
+                className={inputClass}
+                {...field}
+                value={field.value ?? ""}
+                onChange={(e) => field.onChange(toMonths(e.target.value))}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  )
+}
+
+export function LocationFields() {
+  const form = useFormContext<RoomFormValues>()
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="location"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>
+              Location <span className="text-red-500">*</span>
+            </FormLabel>
+            <FormControl>
+              <select
+                {...field}
+                className="w-full rounded-md border border-gray-300 dark:border-gray-600 py-2 px-3 dark:bg-gray-700 dark:text-white"
+              >
+                <option value="">Select location</option>
+                {roomLocations.map((location) => (
+                  <option key={location} value={location}>
+                    {location}
+                  </option>
+                ))}
+              </select>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="address"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <FormLabel className={labelClass}>Street Address</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="e.g., 14 Residency Road"
+                className={inputClass}
+                {...field}
+                value={field.value ?? ""}
+              />
+            </FormControl>
+            <FormDescription className="text-xs">Used to place the listing on the map.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  )
+}
+
+export function AmenitiesFields({ compact = false }: { compact?: boolean }) {
+  const form = useFormContext<RoomFormValues>()
+
+  return (
+    <FormField
+      control={form.control}
+      name="amenities"
+      render={({ field }) => (
+        <FormItem className="space-y-1">
+          <FormLabel className={labelClass}>Amenities</FormLabel>
+          <div className={`grid grid-cols-2 gap-1 pr-1 ${compact ? "max-h-32 overflow-y-auto" : ""}`}>
+            {roomAmenities.map((amenity) => (
+              <div key={amenity} className="flex items-center">
+                <input
+                  type="checkbox"
+                  id={`amenity-${amenity}`}
+                  checked={field.value.includes(amenity)}
+                  onChange={() =>
+                    field.onChange(
+                      field.value.includes(amenity)
+                        ? field.value.filter((a) => a !== amenity)
+                        : [...field.value, amenity],
+                    )
+                  }
+                  className="mr-2"
+                />
+                <label htmlFor={`amenity-${amenity}`} className="text-sm text-gray-700 dark:text-gray-300">
+                  {amenity}
+                </label>
+              </div>
+            ))}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function PhotosFields({ onUploadingChange }: { onUploadingChange?: (uploading: boolean) => void }) {
+  const form = useFormContext<RoomFormValues>()
+  const { toast } = useToast()
+  const [uploadingImages, setUploadingImages] = useState(false)
+  const images = form.watch("images")
+  const imageCaptions = form.watch("imageCaptions")
+
+  const setUploading = (uploading: boolean) => {
+    setUploadingImages(uploading)
+    onUploadingChange?.(uploading)
+  }
+
+  // Uploads the chosen files and appends their URLs to the images already on the listing
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target
+    if (!input.files?.length) return
+
+    setUploading(true)
+    try {
+      const uploaded = await uploadImages(Array.from(input.files))
+      form.setValue("images", [...form.getValues("images"), ...uploaded.map((image) => image.url)], {
+        shouldDirty: true,
+        shouldValidate: true,
+      })
+    } catch (error) {
+      toast({ title: "Upload failed", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setUploading(false)
+      input.value = ""
+    }
+  }
+
+  return (
+    <FormField
+      control={form.control}
+      name="images"
+      render={() => (
+        <FormItem className="space-y-1">
+          <FormLabel className={labelClass}>Images</FormLabel>
+          <FormControl>
+            <Input
+              type="file"
+              accept="image/*"
+              multiple
+              disabled={uploadingImages}
+              onChange={handleImageUpload}
+              className={inputClass}
+            />
+          </FormControl>
+          <FormDescription className="text-xs">
+            {uploadingImages ? "Uploading..." : "JPEG, PNG, WebP or AVIF, up to 8 MB each"}
+          </FormDescription>
+          <PhotoManager
+            value={{ images, imageCaptions }}
+            onChange={(photos) => {
+              form.setValue("images", photos.images, { shouldDirty: true, shouldValidate: true })
+              form.setValue("imageCaptions", photos.imageCaptions, { shouldDirty: true, shouldValidate: true })
+            }}
+          />
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+interface RoomFormProps {
+  // The listing being edited; a blank form is shown when omitted
+  room?: RoomDetails
+  onSubmit: (values: RoomFormValues) => Promise<void>
+  onCancel: () => void
+}
+
+// Every listing field on one form, used for editing an existing listing
+export function RoomForm({ room, onSubmit, onCancel }: RoomFormProps) {
+  const [uploadingImages, setUploadingImages] = useState(false)
+  const form = useForm<RoomFormValues>({
+    resolver: zodResolver(roomInputSchema),
+    defaultValues: toFormValues(room),
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3" noValidate>
+        <BasicsFields />
+        <PricingFields />
+        <LocationFields />
+        <AmenitiesFields compact />
+        <PhotosFields onUploadingChange={setUploadingImages} />
+
+        <div className="flex gap-2 pt-2">
+          <Button
+            type="submit"
+            disabled={form.formState.isSubmitting || uploadingImages}
+            className="bg-amber-500 hover:bg-amber-600 text-white flex-1"
+          >
+            {form.formState.isSubmitting ? "Saving..." : room ? "Update Room" : "Add Room"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            className="dark:text-gray-300 dark:border-gray-600"
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { motion } from "framer-motion"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { imageAlt, thumbnailUrl } from "@/lib/images"
+import type { RoomDetails } from "@/lib/types"
+
+interface RoomGalleryProps {
+  room: Pick<RoomDetails, "title" | "images" | "imageCaptions" | "featured">
+  // Overlaid in the top-right corner, e.g. the owner's edit controls
+  children?: React.ReactNode
+}
+
+// Full-size photo carousel with a thumbnail strip, as shown at the top of a listing
+export function RoomGallery({ room, children }: RoomGalleryProps) {
+  const [currentImageIndex, setCurrentImageIndex] = useState(0)
+  // Photos can be removed while the gallery is open (e.g. in the wizard preview)
+  const current = Math.min(currentImageIndex, Math.max(room.images.length - 1, 0))
+
+  const handlePrevImage = () => {
+    setCurrentImageIndex(current === 0 ? room.images.length - 1 : current - 1)
+  }
+
+  const handleNextImage = () => {
+    setCurrentImageIndex(current === room.images.length - 1 ? 0 : current + 1)
+  }
+
+  return (
+    <>
+      <div className="relative rounded-lg overflow-hidden h-[300px] md:h-[500px] bg-gray-200 dark:bg-gray-800">
+        {room.images.map((image, index) => (
+          <motion.img
+            key={index}
+            src={image}
+            alt={imageAlt(room, index)}
+            className="absolute inset-0 w-full h-full object-cover"
+            initial={{ opacity: 0 }}
+            animate={{
+              opacity: index === current ? 1 : 0,
+              scale: index === current ? 1 : 1.1,
+            }}
+            transition={{ duration: 0.5 }}
+          />
+        ))}
+
+        {room.images.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <p className="text-gray-500 dark:text-gray-400">No image available</p>
+          </div>
+        )}
+
+        {/* Image navigation */}
+        {room.images.length > 1 && (
+          <div className="absolute inset-0 flex items-center justify-between p-4">
+            <Button
+              variant="outline"
+              size="icon"
+              className="rounded-full bg-white/80 dark:bg-black/50 hover:bg-white dark:hover:bg-black/70"
+              onClick={handlePrevImage}
+            >
+              <ChevronLeft className="w-6 h-6" />
+              <span className="sr-only">Previous image</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="rounded-full bg-white/80 dark:bg-black/50 hover:bg-white dark:hover:bg-black/70"
+              onClick={handleNextImage}
+            >
+              <ChevronRight className="w-6 h-6" />
+              <span className="sr-only">Next image</span>
+            </Button>
+          </div>
+        )}
+
+        {/* Caption */}
+        {room.imageCaptions?.[room.images[current]] && (
+          <div className="absolute bottom-4 left-4 max-w-[70%] bg-black/60 text-white px-3 py-1 rounded-full text-sm truncate">
+            {room.imageCaptions[room.images[current]]}
+          </div>
+        )}
+
+        {/* Image counter */}
+        {room.images.length > 0 && (
+          <div className="absolute bottom-4 right-4 bg-black/60 text-white px-3 py-1 rounded-full text-sm">
+            {current + 1} / {room.images.length}
+          </div>
+        )}
+
+        {/* Featured badge */}
+        {room.featured && (
+          <div className="absolute top-4 left-4">
+            <Badge className="bg-amber-500 hover:bg-amber-500 text-white">Featured</Badge>
+          </div>
+        )}
+
+        {children && <div className="absolute top-4 right-4 flex gap-2">{children}</div>}
+      </div>
+
+      {/* Thumbnail navigation */}
+      <div className="flex gap-2 mt-4 overflow-x-auto pb-2">
+        {room.images.map((image, index) => (
+          <button
+            key={index}
+            className={`w-20 h-20 rounded-md overflow-hidden flex-shrink-0 border-2 ${
+              index === current ? "border-amber-600 dark:border-amber-400" : "border-transparent"
+            }`}
+            onClick={() => setCurrentImageIndex(index)}
+          >
+            <img
+              src={thumbnailUrl(image) || "/placeholder.svg"}
+              alt={imageAlt(room, index)}
+              className="w-full h-full object-cover"
+            />
+          </button>
+        ))}
+      </div>
+    </>
+  )
+}
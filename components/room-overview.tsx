@@ -0,0 +1,181 @@
+"use client"
+
+import type React from "react"
+
+import dynamic from "next/dynamic"
+import { Check, MapPin, Star } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { nearbyPlaces, neighbourhoodCentres } from "@/lib/geo"
+import type { RoomDetails } from "@/lib/types"
+
+// Leaflet touches window on import, so the map only renders in the browser
+const LocationMap = dynamic(() => import("@/components/location-map"), {
+  ssr: false,
+  loading: () => <div className="bg-gray-200 dark:bg-gray-700 rounded-lg h-64 animate-pulse" />,
+})
+
+interface RoomOverviewProps {
+  room: RoomDetails
+  // Buttons shown beside the title, e.g. favourite and share
+  actions?: React.ReactNode
+  // Content of the Reviews tab; a placeholder is shown for listings that can't be reviewed yet
+  reviews?: React.ReactNode
+}
+
+// Title and the details, amenities, reviews and location tabs of a listing
+export function RoomOverview({ room, actions, reviews }: RoomOverviewProps) {
+  const position = room.coordinates ?? neighbourhoodCentres[room.location]
+  const places = position ? nearbyPlaces(position) : []
+
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start mb-4 gap-2">
+        <div>
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold dark:text-white">{room.title}</h1>
+          <div className="flex flex-wrap items-center mt-2 text-gray-600 dark:text-gray-400 text-sm">
+            <div className="flex items-center mr-4">
+              <MapPin className="w-4 h-4 mr-1" />
+              <span>{room.location}</span>
+            </div>
+
+            {room.rating && (
+              <div className="flex items-center text-amber-500 mt-1 sm:mt-0">
+                <Star className="w-4 h-4 fill-current" />
+                <span className="ml-1">{room.rating}</span>
+                <span className="text-gray-600 dark:text-gray-400 ml-1">({room.reviews} reviews)</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {actions && <div className="flex gap-2 mt-2 sm:mt-0">{actions}</div>}
+      </div>
+
+      <Tabs defaultValue="details" className="mt-6">
+        <TabsList className="mb-4 flex flex-wrap">
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="amenities">Amenities</TabsTrigger>
+          <TabsTrigger value="reviews">Reviews</TabsTrigger>
+          <TabsTrigger value="location">Location</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="mt-0">
+          <Card>
+            <CardContent className="p-6">
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Rent</h3>
+                  <p className="text-xl font-bold text-rose-700 dark:text-rose-400">₹{room.rent}/month</p>
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Deposit</h3>
+                  <p className="text-xl font-bold text-gray-700 dark:text-gray-300">₹{room.deposit}</p>
+                </div>
+              </div>
+
+              <h3 className="text-lg font-semibold mb-2 dark:text-white">Description</h3>
+              <p className="text-gray-700 dark:text-gray-300 mb-6 whitespace-pre-line">{room.description}</p>
+
+              <h3 className="text-lg font-semibold mb-2 dark:text-white">About the Owner</h3>
+              {room.ownerDetails && (
+                <div className="flex items-center">
+                  <Avatar className="h-12 w-12">
+                    <AvatarImage src={room.ownerDetails.image} alt={room.ownerDetails.name} />
+                    <AvatarFallback>{room.ownerDetails.name.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="ml-4">
+                    <p className="font-medium dark:text-white">{room.ownerDetails.name}</p>
+                    {room.ownerDetails.responseRate !== undefined && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Response rate: {room.ownerDetails.responseRate}%
+                      </p>
+                    )}
+                    {room.ownerDetails.responseTime && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Typically responds {room.ownerDetails.responseTime}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="amenities" className="mt-0">
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold mb-4 dark:text-white">Amenities</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+                {room.amenities.map((amenity) => (
+                  <div key={amenity} className="flex items-center">
+                    <Check className="w-5 h-5 text-green-500 mr-2 flex-shrink-0" />
+                    <span className="text-gray-700 dark:text-gray-300">{amenity}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reviews" className="mt-0">
+          <Card>
+            <CardContent className="p-6">
+              {reviews ?? (
+                <p className="text-gray-500 dark:text-gray-400 italic">
+                  Reviews will appear here once tenants have stayed.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="location" className="mt-0">
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold mb-1 dark:text-white">Location</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                {room.address ? `${room.address}, ${room.location}` : room.location}
+              </p>
+              {position ? (
+                <LocationMap position={position} title={room.title} places={places} className="rounded-lg h-64 z-0" />
+              ) : (
+                <div className="bg-gray-200 dark:bg-gray-700 rounded-lg h-64 flex items-center justify-center">
+                  <p className="text-gray-500 dark:text-gray-400">Map location not available</p>
+                </div>
+              )}
+
+              {places.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="font-medium mb-2 dark:text-white">Nearby</h4>
+                  <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {places.map((place) => (
+                      <li
+                        key={place.name}
+                        className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        <span className="flex items-center">
+                          <MapPin className="w-4 h-4 mr-1 text-gray-400" />
+                          {place.name}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">{place.distanceKm.toFixed(1)} km</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <p className="mt-4 text-gray-700 dark:text-gray-300">
+                Located in {room.location}, this property offers easy access to public transportation, shopping
+                centers, and restaurants. The neighborhood is safe and quiet, perfect for students and working
+                professionals.
+              </p>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import type React from "react"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+
+interface RoomPaginationProps {
+  page: number
+  totalPages: number
+  onPageChange: (page: number) => void
+}
+
+// Page numbers to show: always the first and last page plus a window around the current one
+function visiblePages(page: number, totalPages: number): (number | "ellipsis")[] {
+  const pages: (number | "ellipsis")[] = []
+
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+      pages.push(p)
+    } else if (pages[pages.length - 1] !== "ellipsis") {
+      pages.push("ellipsis")
+    }
+  }
+
+  return pages
+}
+
+export function RoomPagination({ page, totalPages, onPageChange }: RoomPaginationProps) {
+  if (totalPages <= 1) return null
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault()
+    if (target >= 1 && target <= totalPages && target !== page) {
+      onPageChange(target)
+    }
+  }
+
+  return (
+    <Pagination className="mt-8 dark:text-white">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            className={page === 1 ? "pointer-events-none opacity-50" : ""}
+          />
+        </PaginationItem>
+        {visiblePages(page, totalPages).map((p, index) =>
+          p === "ellipsis" ? (
+            <PaginationItem key={`ellipsis-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={p}>
+              <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                {p}
+              </PaginationLink>
+            </PaginationItem>
+          ),
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            className={page === totalPages ? "pointer-events-none opacity-50" : ""}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  )
+}
@@ -0,0 +1,276 @@
+"use client"
+
+import "leaflet/dist/leaflet.css"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import L from "leaflet"
+import { MapContainer, Marker, Rectangle, TileLayer, useMap, useMapEvents } from "react-leaflet"
+import { PenSquare, ScanSearch } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { neighbourhoodCentres, tileAttribution, tileUrl, type Bounds, type Coordinates } from "@/lib/geo"
+import type { RoomDetails } from "@/lib/types"
+
+interface RoomsMapProps {
+  rooms: RoomDetails[]
+  highlightedId: number | null
+  onHighlight: (id: number | null) => void
+  onSelectRoom: (id: number) => void
+  area: Bounds | null
+  onAreaChange: (area: Bounds | null) => void
+  className?: string
+}
+
+interface Cluster {
+  key: string
+  position: Coordinates
+  rooms: RoomDetails[]
+}
+
+// Pins closer than this many pixels at the current zoom are merged into one cluster
+const CLUSTER_RADIUS_PX = 48
+
+const defaultCentre = neighbourhoodCentres.Downtown
+
+function roomPosition(room: RoomDetails): Coordinates | undefined {
+  return room.coordinates ?? neighbourhoodCentres[room.location]
+}
+
+function toBounds(bounds: L.LatLngBounds): Bounds {
+  return {
+    south: bounds.getSouth(),
+    west: bounds.getWest(),
+    north: bounds.getNorth(),
+    east: bounds.getEast(),
+  }
+}
+
+function priceIcon(label: string, highlighted: boolean) {
+  return L.divIcon({
+    className: "",
+    html: `<div class="-translate-x-1/2 -translate-y-1/2 whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-bold shadow-md border ${
+      highlighted ? "bg-rose-700 text-white border-rose-800 scale-110" : "bg-white text-gray-900 border-gray-300"
+    }">${label}</div>`,
+    iconSize: [0, 0],
+  })
+}
+
+function clusterIcon(count: number, highlighted: boolean) {
+  return L.divIcon({
+    className: "",
+    html: `<div class="-translate-x-1/2 -translate-y-1/2 flex h-9 w-9 items-center justify-center rounded-full text-sm font-bold text-white shadow-md border-2 border-white ${
+      highlighted ? "bg-rose-700" : "bg-amber-500"
+    }">${count}</div>`,
+    iconSize: [0, 0],
+  })
+}
+
+// Greedy pixel-distance clustering, recomputed whenever the map zooms
+function clusterRooms(map: L.Map, rooms: RoomDetails[]): Cluster[] {
+  const clusters: (Cluster & { point: L.Point })[] = []
+
+  for (const room of rooms) {
+    const position = roomPosition(room)
+    if (!position) continue
+
+    const point = map.project([position.lat, position.lng], map.getZoom())
+    const cluster = clusters.find((c) => c.point.distanceTo(point) < CLUSTER_RADIUS_PX)
+
+    if (cluster) {
+      cluster.rooms.push(room)
+    } else {
+      clusters.push({ key: String(room.id), position, point, rooms: [room] })
+    }
+  }
+
+  return clusters
+}
+
+function ClusteredPins({
+  rooms,
+  highlightedId,
+  onHighlight,
+  onSelectRoom,
+}: Pick<RoomsMapProps, "rooms" | "highlightedId" | "onHighlight" | "onSelectRoom">) {
+  const map = useMap()
+  const [zoom, setZoom] = useState(map.getZoom())
+
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) })
+
+  const clusters = useMemo(() => clusterRooms(map, rooms), [map, rooms, zoom])
+
+  return (
+    <>
+      {clusters.map((cluster) => {
+        const highlighted = cluster.rooms.some((room) => room.id === highlightedId)
+
+        if (cluster.rooms.length === 1) {
+          const [room] = cluster.rooms
+          return (
+            <Marker
+              key={cluster.key}
+              position={[cluster.position.lat, cluster.position.lng]}
+              icon={priceIcon(`₹${room.rent}`, highlighted)}
+              zIndexOffset={highlighted ? 1000 : 0}
+              eventHandlers={{
+                click: () => onSelectRoom(room.id),
+                mouseover: () => onHighlight(room.id),
+                mouseout: () => onHighlight(null),
+              }}
+            />
+          )
+        }
+
+        return (
+          <Marker
+            key={cluster.key}
+            position={[cluster.position.lat, cluster.position.lng]}
+            icon={clusterIcon(cluster.rooms.length, highlighted)}
+            zIndexOffset={highlighted ? 1000 : 0}
+            eventHandlers={{
+              // Zoom in far enough to split the cluster
+              click: () => map.setView([cluster.position.lat, cluster.position.lng], map.getZoom() + 2),
+            }}
+          />
+        )
+      })}
+    </>
+  )
+}
+
+// Frames every pin when the result set changes
+function FitToRooms({ rooms, area }: { rooms: RoomDetails[]; area: Bounds | null }) {
+  const map = useMap()
+
+  useEffect(() => {
+    // The user picked an area themselves; leave the viewport alone
+    if (area) return
+
+    const positions = rooms.map(roomPosition).filter((p): p is Coordinates => !!p)
+    if (positions.length === 0) return
+
+    map.fitBounds(L.latLngBounds(positions.map((p) => [p.lat, p.lng])), { padding: [40, 40], maxZoom: 15 })
+  }, [map, rooms, area])
+
+  return null
+}
+
+// While drawing, a press-and-drag on the map traces a rectangle instead of panning
+function DrawArea({ active, onDrawn }: { active: boolean; onDrawn: (area: Bounds) => void }) {
+  const map = useMap()
+  const [start, setStart] = useState<L.LatLng | null>(null)
+  const [current, setCurrent] = useState<L.LatLng | null>(null)
+
+  useEffect(() => {
+    if (active) {
+      map.dragging.disable()
+    } else {
+      map.dragging.enable()
+    }
+  }, [map, active])
+
+  useMapEvents({
+    mousedown: (e) => {
+      if (!active) return
+      setStart(e.latlng)
+      setCurrent(e.latlng)
+    },
+    mousemove: (e) => {
+      if (start) setCurrent(e.latlng)
+    },
+    mouseup: () => {
+      if (start && current && !start.equals(current)) {
+        onDrawn(toBounds(L.latLngBounds(start, current)))
+      }
+      setStart(null)
+      setCurrent(null)
+    },
+  })
+
+  if (!start || !current) return null
+  return <Rectangle bounds={L.latLngBounds(start, current)} pathOptions={{ color: "#be123c", dashArray: "4" }} />
+}
+
+function AreaControls({
+  drawing,
+  onToggleDrawing,
+  onSearchArea,
+}: {
+  drawing: boolean
+  onToggleDrawing: () => void
+  onSearchArea: (area: Bounds) => void
+}) {
+  const map = useMap()
+  const ref = useRef<HTMLDivElement>(null)
+
+  // Keep button presses from reaching the map, where they'd start a pan or a drawing
+  useEffect(() => {
+    if (ref.current) L.DomEvent.disableClickPropagation(ref.current)
+  }, [])
+
+  return (
+    <div ref={ref} className="absolute top-3 right-3 z-[1000] flex gap-2">
+      <Button
+        size="sm"
+        variant="outline"
+        className="bg-white text-gray-800 shadow"
+        onClick={() => onSearchArea(toBounds(map.getBounds()))}
+      >
+        <ScanSearch className="w-4 h-4 mr-1" /> Search this area
+      </Button>
+      <Button
+        size="sm"
+        variant={drawing ? "default" : "outline"}
+        className={drawing ? "shadow" : "bg-white text-gray-800 shadow"}
+        onClick={onToggleDrawing}
+      >
+        <PenSquare className="w-4 h-4 mr-1" /> {drawing ? "Drag to draw" : "Draw area"}
+      </Button>
+    </div>
+  )
+}
+
+export default function RoomsMap({
+  rooms,
+  highlightedId,
+  onHighlight,
+  onSelectRoom,
+  area,
+  onAreaChange,
+  className,
+}: RoomsMapProps) {
+  const [drawing, setDrawing] = useState(false)
+
+  return (
+    <MapContainer
+      center={[defaultCentre.lat, defaultCentre.lng]}
+      zoom={12}
+      className={`relative ${drawing ? "cursor-crosshair" : ""} ${className ?? ""}`}
+    >
+      <TileLayer url={tileUrl} attribution={tileAttribution} />
+      {area && (
+        <Rectangle
+          bounds={[
+            [area.south, area.west],
+            [area.north, area.east],
+          ]}
+          pathOptions={{ color: "#be123c", fillOpacity: 0.05 }}
+        />
+      )}
+      <ClusteredPins
+        rooms={rooms}
+        highlightedId={highlightedId}
+        onHighlight={onHighlight}
+        onSelectRoom={onSelectRoom}
+      />
+      <FitToRooms rooms={rooms} area={area} />
+      <DrawArea
+        active={drawing}
+        onDrawn={(drawn) => {
+          setDrawing(false)
+          onAreaChange(drawn)
+        }}
+      />
+      <AreaControls drawing={drawing} onToggleDrawing={() => setDrawing(!drawing)} onSearchArea={onAreaChange} />
+    </MapContainer>
+  )
+}
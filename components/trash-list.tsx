@@ -0,0 +1,162 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RotateCcw, Trash2 } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { fetchTrash, purgeRoom, restoreRoom } from "@/lib/api"
+import { imageAlt, thumbnailUrl } from "@/lib/images"
+import type { TrashedRoom } from "@/lib/types"
+
+function formatDay(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" })
+}
+
+interface TrashListProps {
+  // Called after a listing is restored so the caller can reload its listings
+  onRestored?: () => void
+}
+
+// The owner's deleted listings, each restorable until its retention window runs out
+export function TrashList({ onRestored }: TrashListProps) {
+  const { toast } = useToast()
+  const [rooms, setRooms] = useState<TrashedRoom[] | null>(null)
+  const [busyId, setBusyId] = useState<number | null>(null)
+  const [purging, setPurging] = useState<TrashedRoom | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchTrash()
+      .then((result) => {
+        if (!cancelled) setRooms(result)
+      })
+      .catch((error) => {
+        toast({ title: "Failed to load trash", description: error.message, variant: "destructive" })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [toast])
+
+  const remove = (room: TrashedRoom) => setRooms((current) => current?.filter((r) => r.id !== room.id) ?? null)
+
+  const handleRestore = async (room: TrashedRoom) => {
+    setBusyId(room.id)
+    try {
+      await restoreRoom(room.id)
+      remove(room)
+      onRestored?.()
+      toast({ title: "Room Restored", description: `${room.title} is back in your listings` })
+    } catch (error) {
+      toast({ title: "Restore Failed", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePurge = async (room: TrashedRoom) => {
+    setBusyId(room.id)
+    try {
+      await purgeRoom(room.id)
+      remove(room)
+      toast({ title: "Room Deleted", description: `${room.title} has been permanently deleted` })
+    } catch (error) {
+      toast({ title: "Delete Failed", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!rooms) {
+    return <p className="text-center text-gray-500 dark:text-gray-400 py-16">Loading trash...</p>
+  }
+
+  if (rooms.length === 0) {
+    return (
+      <p className="italic text-center text-gray-500 dark:text-gray-400 text-xl py-16">
+        Trash is empty. Deleted listings stay here for a while before they're removed for good.
+      </p>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {rooms.map((room) => (
+        <Card key={room.id} className="dark:bg-gray-800 dark:border-gray-700">
+          <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="w-full sm:w-28 h-32 sm:h-20 flex-shrink-0 rounded overflow-hidden bg-gray-200 dark:bg-gray-700">
+              {room.images.length > 0 && (
+                <img
+                  src={thumbnailUrl(room.images[0])}
+                  alt={imageAlt(room, 0)}
+                  className="w-full h-full object-cover opacity-75"
+                />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <h4 className="font-medium truncate dark:text-white">{room.title}</h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {room.location} · ₹{room.rent}/month
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Deleted {formatDay(room.deletedAt)} · permanently removed on {formatDay(room.purgeAt)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={busyId === room.id}
+                className="bg-amber-500 hover:bg-amber-600 text-white"
+                onClick={() => handleRestore(room)}
+              >
+                <RotateCcw className="w-4 h-4 mr-1" /> Restore
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busyId === room.id}
+                className="text-red-500 dark:border-gray-600"
+                onClick={() => setPurging(room)}
+              >
+                <Trash2 className="w-4 h-4 mr-1" /> Delete Forever
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      <AlertDialog open={!!purging} onOpenChange={(open) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete for good?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. {purging?.title} will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purging && handlePurge(purging)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { Calendar } from "@/components/ui/calendar"
+import { Button } from "@/components/ui/button"
+import { formatDate, parseDate, type DaySlots } from "@/lib/availability"
+
+interface ViewingSlotPickerProps {
+  slots: DaySlots[]
+  value: { date: string; time: string }
+  onChange: (value: { date: string; time: string }) => void
+  // Shown instead of the calendar when nothing is open
+  emptyMessage?: string
+}
+
+// Calendar of bookable days followed by the open times on the chosen day
+export function ViewingSlotPicker({
+  slots,
+  value,
+  onChange,
+  emptyMessage = "No viewing slots are open in the next few weeks. Try contacting the owner instead.",
+}: ViewingSlotPickerProps) {
+  const openDates = new Set(slots.map((day) => day.date))
+  const times = slots.find((day) => day.date === value.date)?.times ?? []
+
+  if (slots.length === 0) {
+    return (
+      <p className="text-sm italic text-gray-500 dark:text-gray-400">{emptyMessage}</p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={value.date ? parseDate(value.date) : undefined}
+        onSelect={(day) => onChange({ date: day ? formatDate(day) : "", time: "" })}
+        disabled={(day) => !openDates.has(formatDate(day))}
+        fromDate={parseDate(slots[0].date)}
+        toDate={parseDate(slots[slots.length - 1].date)}
+        className="rounded-md border dark:border-gray-600 w-fit mx-auto"
+      />
+
+      {value.date && (
+        <div className="grid grid-cols-3 gap-2">
+          {times.map((time) => (
+            <Button
+              key={time}
+              type="button"
+              size="sm"
+              variant={value.time === time ? "default" : "outline"}
+              className={value.time === time ? "bg-amber-500 hover:bg-amber-600 text-white" : "dark:border-gray-600"}
+              onClick={() => onChange({ ...value, time })}
+            >
+              {time}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { CalendarClock, Check, Clock, Mail, Phone, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { ViewingSlotPicker } from "@/components/viewing-slot-picker"
+import { useToast } from "@/hooks/use-toast"
+import { fetchAvailability, fetchViewings, updateViewing } from "@/lib/api"
+import type { DaySlots } from "@/lib/availability"
+import type { Viewing, ViewingAction, ViewingStatus } from "@/lib/types"
+
+interface ViewingsPanelProps {
+  // "owner" lists requests for the user's listings, "tenant" the viewings they've booked
+  role: "owner" | "tenant"
+}
+
+const statusStyles: Record<ViewingStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  confirmed: "bg-green-100 text-green-800 hover:bg-green-100",
+  rescheduled: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  declined: "bg-red-100 text-red-800 hover:bg-red-100",
+  cancelled: "bg-gray-200 text-gray-700 hover:bg-gray-200",
+}
+
+function formatSlot(viewing: Viewing) {
+  return new Date(`${viewing.date}T${viewing.time}`).toLocaleString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+export function ViewingsPanel({ role }: ViewingsPanelProps) {
+  const { toast } = useToast()
+  const [viewings, setViewings] = useState<Viewing[] | null>(null)
+  const [rescheduling, setRescheduling] = useState<number | null>(null)
+  const [slot, setSlot] = useState({ date: "", time: "" })
+  const [openSlots, setOpenSlots] = useState<DaySlots[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setViewings(null)
+
+    fetchViewings(role)
+      .then((result) => {
+        if (!cancelled) setViewings(result)
+      })
+      .catch((error) => {
+        toast({ title: "Failed to load viewings", description: error.message, variant: "destructive" })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [role, toast])
+
+  const startRescheduling = async (viewing: Viewing) => {
+    setSlot({ date: "", time: "" })
+    setOpenSlots(null)
+    setRescheduling(viewing.id)
+
+    try {
+      setOpenSlots((await fetchAvailability(viewing.roomId)).slots)
+    } catch (error) {
+      setRescheduling(null)
+      toast({ title: "Failed to load open slots", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  const handleAction = async (viewing: Viewing, action: ViewingAction) => {
+    try {
+      const updated = await updateViewing(viewing.id, action, action === "reschedule" ? slot : undefined)
+      setViewings((current) => current?.map((v) => (v.id === updated.id ? updated : v)) ?? null)
+      setRescheduling(null)
+      toast({ title: `Viewing ${updated.status}`, description: `${updated.roomTitle} · ${formatSlot(updated)}` })
+    } catch (error) {
+      toast({ title: "Couldn't update viewing", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  if (!viewings) {
+    return <p className="text-center text-gray-500 dark:text-gray-400 py-16">Loading viewings...</p>
+  }
+
+  if (viewings.length === 0) {
+    return (
+      <p className="italic text-center text-gray-500 dark:text-gray-400 text-xl py-16">
+        {role === "owner" ? "No viewing requests for your listings yet." : "You haven't booked any viewings yet."}
+      </p>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {viewings.map((viewing) => {
+        const open = ["pending", "confirmed", "rescheduled"].includes(viewing.status)
+
+        return (
+          <Card key={viewing.id} className="dark:bg-gray-800 dark:border-gray-700">
+            <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Link href={`/room/${viewing.roomId}`} className="font-semibold hover:underline dark:text-white">
+                    {viewing.roomTitle}
+                  </Link>
+                  <Badge className={`capitalize ${statusStyles[viewing.status]}`}>{viewing.status}</Badge>
+                </div>
+                <div className="flex items-center text-sm text-gray-600 dark:text-gray-300">
+                  <Clock className="w-4 h-4 mr-1" />
+                  {formatSlot(viewing)}
+                </div>
+                {role === "owner" && (
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
+                    <span className="font-medium">{viewing.tenantName}</span>
+                    <span className="flex items-center">
+                      <Mail className="w-4 h-4 mr-1" />
+                      {viewing.tenantEmail}
+                    </span>
+                    {viewing.phone && (
+                      <span className="flex items-center">
+                        <Phone className="w-4 h-4 mr-1" />
+                        {viewing.phone}
+                      </span>
+                    )}
+                  </div>
+                )}
+                {viewing.message && (
+                  <p className="text-sm italic text-gray-500 dark:text-gray-400">&ldquo;{viewing.message}&rdquo;</p>
+                )}
+              </div>
+
+              {open && (
+                <div className="flex flex-col gap-2 md:items-end">
+                  {rescheduling === viewing.id ? (
+                    <div className="flex flex-col gap-2">
+                      {openSlots ? (
+                        <ViewingSlotPicker
+                          slots={openSlots}
+                          value={slot}
+                          onChange={setSlot}
+                          emptyMessage="No other slots are open. Add availability windows to offer more times."
+                        />
+                      ) : (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Loading open slots...</p>
+                      )}
+                      <div className="flex gap-2 justify-end">
+                        <Button
+                          size="sm"
+                          disabled={!slot.date || !slot.time}
+                          onClick={() => handleAction(viewing, "reschedule")}
+                        >
+                          Save
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setRescheduling(null)}>
+                          Back
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {role === "owner" && viewing.status === "pending" && (
+                        <>
+                          <Button
+                            size="sm"
+                            className="bg-green-600 hover:bg-green-700"
+                            onClick={() => handleAction(viewing, "confirm")}
+                          >
+                            <Check className="w-4 h-4 mr-1" /> Confirm
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleAction(viewing, "decline")}>
+                            <X className="w-4 h-4 mr-1" /> Decline
+                          </Button>
+                        </>
+                      )}
+                      {role === "owner" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => startRescheduling(viewing)}
+                        >
+                          <CalendarClock className="w-4 h-4 mr-1" /> Reschedule
+                        </Button>
+                      )}
+                      {role === "tenant" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600"
+                          onClick={() => handleAction(viewing, "cancel")}
+                        >
+                          Cancel viewing
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import * as React from "react"
+
+import { ToastAction } from "@/components/ui/toast"
+import { useToast } from "@/hooks/use-toast"
+import { deleteRoom, restoreRoom } from "@/lib/api"
+import type { RoomDetails } from "@/lib/types"
+
+// Moves a listing to the trash and offers an Undo action on the confirmation toast.
+// onRestored runs after an undo, e.g. to reload the listings or return to the room.
+export function useDeleteRoom(onRestored: (room: RoomDetails) => void) {
+  const { toast } = useToast()
+
+  return React.useCallback(
+    async (room: Pick<RoomDetails, "id" | "title">) => {
+      try {
+        await deleteRoom(room.id)
+      } catch (error) {
+        toast({ title: "Delete Failed", description: (error as Error).message, variant: "destructive" })
+        return false
+      }
+
+      const undo = async () => {
+        try {
+          const restored = await restoreRoom(room.id)
+          toast({ title: "Room Restored", description: `${restored.title} is back in your listings` })
+          onRestored(restored)
+        } catch (error) {
+          toast({ title: "Restore Failed", description: (error as Error).message, variant: "destructive" })
+        }
+      }
+
+      toast({
+        title: "Room moved to Trash",
+        description: `${room.title} can be restored from My Listings › Trash`,
+        action: (
+          <ToastAction altText="Undo delete" onClick={undo}>
+            Undo
+          </ToastAction>
+        ),
+      })
+      return true
+    },
+    [onRestored, toast],
+  )
+}
@@ -0,0 +1,31 @@
+import * as React from "react"
+
+import { fetchUnreadCount } from "@/lib/api"
+
+// Unread messages are picked up by polling the local API
+export const MESSAGE_POLL_INTERVAL = 10_000
+
+export function useUnreadMessages(enabled: boolean) {
+  const [count, setCount] = React.useState(0)
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let cancelled = false
+    const refresh = () =>
+      fetchUnreadCount()
+        .then((next) => {
+          if (!cancelled) setCount(next)
+        })
+        .catch(() => {})
+
+    refresh()
+    const interval = setInterval(refresh, MESSAGE_POLL_INTERVAL)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [enabled])
+
+  return count
+}
@@ -0,0 +1,212 @@
+import type { Availability, DaySlots } from "@/lib/availability"
+import type { ReviewScores } from "@/lib/ratings"
+import { roomQueryToSearchParams, type RoomPage, type RoomQuery } from "@/lib/filters"
+import type {
+  ContactStats,
+  ConversationSummary,
+  FlaggedReview,
+  Message,
+  Review,
+  ReviewEligibility,
+  ReviewModerationAction,
+  RoomDetails,
+  RoomDraft,
+  RoomInput,
+  RoomStatusAction,
+  TrashedRoom,
+  UploadedImage,
+  User,
+  Viewing,
+  ViewingAction,
+} from "@/lib/types"
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    // Form uploads need the browser to set the multipart boundary itself
+    headers: init?.body instanceof FormData ? init.headers : { "Content-Type": "application/json", ...init?.headers },
+  })
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null)
+    throw new Error(body?.error || `Request failed with status ${res.status}`)
+  }
+
+  return res.status === 204 ? (undefined as T) : res.json()
+}
+
+export function fetchRooms(query: RoomQuery = {}) {
+  return request<RoomPage>(`/api/rooms?${roomQueryToSearchParams(query)}`)
+}
+
+export function fetchRoom(id: number) {
+  return request<RoomDetails>(`/api/rooms/${id}`)
+}
+
+export function changeRoomStatus(id: number, action: RoomStatusAction) {
+  return request<RoomDetails>(`/api/rooms/${id}`, { method: "PATCH", body: JSON.stringify({ action }) })
+}
+
+export function createRoom(room: RoomInput) {
+  return request<RoomDetails>("/api/rooms", { method: "POST", body: JSON.stringify(room) })
+}
+
+export function updateRoom(id: number, room: RoomInput) {
+  return request<RoomDetails>(`/api/rooms/${id}`, { method: "PUT", body: JSON.stringify(room) })
+}
+
+export function deleteRoom(id: number) {
+  return request<void>(`/api/rooms/${id}`, { method: "DELETE" })
+}
+
+export function fetchTrash() {
+  return request<TrashedRoom[]>("/api/trash")
+}
+
+export function restoreRoom(id: number) {
+  return request<RoomDetails>(`/api/trash/${id}/restore`, { method: "POST" })
+}
+
+export function purgeRoom(id: number) {
+  return request<void>(`/api/trash/${id}`, { method: "DELETE" })
+}
+
+export function uploadImages(files: File[]) {
+  const form = new FormData()
+  files.forEach((file) => form.append("files", file))
+  return request<UploadedImage[]>("/api/uploads", { method: "POST", body: form })
+}
+
+export function fetchDrafts() {
+  return request<RoomDraft[]>("/api/drafts")
+}
+
+export function fetchDraft(id: number) {
+  return request<RoomDraft>(`/api/drafts/${id}`)
+}
+
+export function createDraft(values: Partial<RoomInput>, step: number) {
+  return request<RoomDraft>("/api/drafts", { method: "POST", body: JSON.stringify({ values, step }) })
+}
+
+export function saveDraft(id: number, values: Partial<RoomInput>, step: number) {
+  return request<RoomDraft>(`/api/drafts/${id}`, { method: "PUT", body: JSON.stringify({ values, step }) })
+}
+
+export function deleteDraft(id: number) {
+  return request<void>(`/api/drafts/${id}`, { method: "DELETE" })
+}
+
+export function publishDraft(id: number, room: RoomInput) {
+  return request<RoomDetails>(`/api/drafts/${id}/publish`, { method: "POST", body: JSON.stringify(room) })
+}
+
+export function login(email: string, password: string) {
+  return request<User>("/api/auth/login", { method: "POST", body: JSON.stringify({ email, password }) })
+}
+
+export function register(name: string, email: string, password: string, phone?: string) {
+  return request<User>("/api/auth/register", {
+    method: "POST",
+    body: JSON.stringify({ name, email, password, phone }),
+  })
+}
+
+export function logout() {
+  return request<void>("/api/auth/logout", { method: "POST" })
+}
+
+// Resolves to the logged-in user, or null when there is no valid session
+export function fetchSession() {
+  return request<User>("/api/auth/session").catch(() => null)
+}
+
+export function fetchAvailability(roomId: number) {
+  return request<{ availability: Availability; slots: DaySlots[] }>(`/api/rooms/${roomId}/availability`)
+}
+
+export function saveAvailability(roomId: number, availability: Availability) {
+  return request<{ availability: Availability; slots: DaySlots[] }>(`/api/rooms/${roomId}/availability`, {
+    method: "PUT",
+    body: JSON.stringify(availability),
+  })
+}
+
+export function fetchViewings(role: "owner" | "tenant") {
+  return request<Viewing[]>(`/api/viewings?role=${role}`)
+}
+
+export function requestViewing(viewing: { roomId: number; date: string; time: string; phone?: string; message?: string }) {
+  return request<Viewing>("/api/viewings", { method: "POST", body: JSON.stringify(viewing) })
+}
+
+export function updateViewing(id: number, action: ViewingAction, slot?: { date: string; time: string }) {
+  return request<Viewing>(`/api/viewings/${id}`, { method: "PATCH", body: JSON.stringify({ action, ...slot }) })
+}
+
+export function fetchConversations() {
+  return request<ConversationSummary[]>("/api/conversations")
+}
+
+export function startConversation(roomId: number) {
+  return request<ConversationSummary>("/api/conversations", { method: "POST", body: JSON.stringify({ roomId }) })
+}
+
+export function fetchConversation(id: number) {
+  return request<{ conversation: ConversationSummary; messages: Message[] }>(`/api/conversations/${id}`)
+}
+
+export function sendMessage(conversationId: number, body: string) {
+  return request<Message>(`/api/conversations/${conversationId}/messages`, {
+    method: "POST",
+    body: JSON.stringify({ body }),
+  })
+}
+
+export async function fetchUnreadCount() {
+  const { count } = await request<{ count: number }>("/api/conversations/unread")
+  return count
+}
+
+export async function revealOwnerPhone(roomId: number) {
+  const { phone } = await request<{ phone: string }>(`/api/rooms/${roomId}/contact`, {
+    method: "POST",
+    body: JSON.stringify({ method: "call" }),
+  })
+  return phone
+}
+
+export function emailOwner(roomId: number, message: string) {
+  return request<void>(`/api/rooms/${roomId}/contact`, {
+    method: "POST",
+    body: JSON.stringify({ method: "email", message }),
+  })
+}
+
+export function fetchContactStats(roomId: number) {
+  return request<ContactStats>(`/api/rooms/${roomId}/contact`)
+}
+
+export function fetchReviewEligibility(roomId: number) {
+  return request<ReviewEligibility>(`/api/rooms/${roomId}/reviews`)
+}
+
+export function postReview(roomId: number, review: { rating: number; scores: ReviewScores; comment: string }) {
+  return request<Review>(`/api/rooms/${roomId}/reviews`, { method: "POST", body: JSON.stringify(review) })
+}
+
+export function replyToReview(reviewId: number, text: string) {
+  return request<Review>(`/api/reviews/${reviewId}/reply`, { method: "POST", body: JSON.stringify({ text }) })
+}
+
+export function flagReview(reviewId: number, reason: string) {
+  return request<void>(`/api/reviews/${reviewId}/flags`, { method: "POST", body: JSON.stringify({ reason }) })
+}
+
+export function fetchFlaggedReviews() {
+  return request<FlaggedReview[]>("/api/reviews/moderation")
+}
+
+export function moderateReview(reviewId: number, action: ReviewModerationAction) {
+  return request<FlaggedReview>(`/api/reviews/${reviewId}`, { method: "PATCH", body: JSON.stringify({ action }) })
+}
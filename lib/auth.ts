@@ -0,0 +1,148 @@
+import { randomBytes } from "crypto"
+import { cookies } from "next/headers"
+import { z } from "zod"
+
+import { readDb, updateDb, type StoredUser } from "@/lib/db"
+import { HttpError } from "@/lib/http"
+import { hashPassword, verifyPassword } from "@/lib/password"
+import type { User } from "@/lib/types"
+
+export const SESSION_COOKIE = "session"
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const MIN_PASSWORD_LENGTH = 8
+
+export class AuthError extends HttpError {
+  constructor(message: string, status = 401) {
+    super(message, status)
+    this.name = "AuthError"
+  }
+}
+
+function toUser({ id, name, email, isModerator }: StoredUser): User {
+  return isModerator ? { id, name, email, isModerator } : { id, name, email }
+}
+
+const REQUIRED_MESSAGE = "Please fill in all required fields"
+
+const requiredText = z
+  .string({ required_error: REQUIRED_MESSAGE, invalid_type_error: REQUIRED_MESSAGE })
+  .trim()
+  .min(1, REQUIRED_MESSAGE)
+
+// Contact numbers are shown to other users, so keep them to the characters a phone number needs
+const phoneSchema = z
+  .string({ invalid_type_error: "Please enter a valid phone number" })
+  .trim()
+  .max(20, "Phone number can be at most 20 characters")
+  .regex(/^[+\d ()-]*$/, "Phone number can only contain digits, spaces, +, - and brackets")
+
+// Emails end up in relayed mail headers, so anything that isn't a plain address is refused here
+const registrationSchema = z.object({
+  name: requiredText.max(100, "Name can be at most 100 characters"),
+  email: requiredText
+    .max(254, "Email can be at most 254 characters")
+    .email("Please enter a valid email address")
+    .transform((email) => email.toLowerCase()),
+  password: z
+    .string({ required_error: REQUIRED_MESSAGE, invalid_type_error: REQUIRED_MESSAGE })
+    .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+  phone: phoneSchema.optional(),
+})
+
+export type Registration = z.infer<typeof registrationSchema>
+
+export function parseRegistration(body: unknown): Registration {
+  const result = registrationSchema.safeParse(body)
+  if (!result.success) throw new HttpError(result.error.issues[0].message, 400)
+  return result.data
+}
+
+// Validates an optional phone number from a form, returning undefined when it was left blank
+export function parsePhone(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined
+  const result = phoneSchema.safeParse(value)
+  if (!result.success) throw new HttpError(result.error.issues[0].message, 400)
+  return result.data || undefined
+}
+
+export function registerUser({ name, email, password, phone }: Registration): Promise<User> {
+  return updateDb((db) => {
+    if (db.users.some((user) => user.email === email)) {
+      throw new AuthError("An account with this email already exists", 409)
+    }
+
+    const user: StoredUser = {
+      id: db.users.reduce((max, u) => Math.max(max, u.id), 0) + 1,
+      name,
+      email,
+      phone: phone || undefined,
+      ...hashPassword(password),
+      createdAt: new Date().toISOString(),
+    }
+    db.users.push(user)
+    return toUser(user)
+  })
+}
+
+export async function authenticate(email: string, password: string): Promise<User> {
+  const db = await readDb()
+  const user = db.users.find((u) => u.email === email.trim().toLowerCase())
+
+  if (!user || !verifyPassword(password, user.salt, user.passwordHash)) {
+    throw new AuthError("Invalid email or password")
+  }
+
+  return toUser(user)
+}
+
+export async function startSession(user: User) {
+  const token = randomBytes(32).toString("hex")
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+  await updateDb((db) => {
+    // Drop expired sessions while we're here
+    db.sessions = db.sessions.filter((session) => new Date(session.expiresAt) > new Date())
+    db.sessions.push({ token, userId: user.id, expiresAt: expiresAt.toISOString() })
+  })
+
+  const cookieStore = await cookies()
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  })
+}
+
+export async function endSession() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(SESSION_COOKIE)?.value
+
+  if (token) {
+    await updateDb((db) => {
+      db.sessions = db.sessions.filter((session) => session.token !== token)
+    })
+  }
+
+  cookieStore.delete(SESSION_COOKIE)
+}
+
+export async function getCurrentUser(): Promise<User | null> {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(SESSION_COOKIE)?.value
+  if (!token) return null
+
+  const db = await readDb()
+  const session = db.sessions.find((s) => s.token === token)
+  if (!session || new Date(session.expiresAt) <= new Date()) return null
+
+  const user = db.users.find((u) => u.id === session.userId)
+  return user ? toUser(user) : null
+}
+
+export async function requireUser(): Promise<User> {
+  const user = await getCurrentUser()
+  if (!user) throw new AuthError("You must be logged in")
+  return user
+}
@@ -0,0 +1,125 @@
+export interface AvailabilityWindow {
+  // 0 = Sunday … 6 = Saturday
+  weekday: number
+  // Local times as HH:mm
+  start: string
+  end: string
+}
+
+export interface Availability {
+  windows: AvailabilityWindow[]
+  // Dates (YYYY-MM-DD) the owner can't show the room
+  blackoutDates: string[]
+}
+
+export interface DaySlots {
+  date: string
+  times: string[]
+}
+
+export const SLOT_MINUTES = 30
+
+// How far ahead tenants can book
+export const BOOKING_HORIZON_DAYS = 28
+
+export const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+// Used for listings whose owner hasn't set their own hours yet
+export const defaultAvailability: Availability = {
+  windows: [1, 2, 3, 4, 5, 6].map((weekday) => ({ weekday, start: "10:00", end: "18:00" })),
+  blackoutDates: [],
+}
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/
+const datePattern = /^\d{4}-\d{2}-\d{2}$/
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+function fromMinutes(total: number) {
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`
+}
+
+export function formatDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+}
+
+// Midnight local time on a YYYY-MM-DD date
+export function parseDate(date: string) {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// Slot start times the owner offers on the given date, before bookings are taken out
+export function slotsOn(availability: Availability, date: string): string[] {
+  if (availability.blackoutDates.includes(date)) return []
+
+  const weekday = parseDate(date).getDay()
+  const times = new Set<string>()
+
+  for (const window of availability.windows) {
+    if (window.weekday !== weekday) continue
+    for (let t = toMinutes(window.start); t + SLOT_MINUTES <= toMinutes(window.end); t += SLOT_MINUTES) {
+      times.add(fromMinutes(t))
+    }
+  }
+
+  return [...times].sort()
+}
+
+export function isOfferedSlot(availability: Availability, date: string, time: string) {
+  return slotsOn(availability, date).includes(time)
+}
+
+// Whether a YYYY-MM-DD date falls within the BOOKING_HORIZON_DAYS that openSlots covers
+export function isWithinHorizon(date: string, from = new Date()) {
+  return parseDate(date) < new Date(from.getFullYear(), from.getMonth(), from.getDate() + BOOKING_HORIZON_DAYS)
+}
+
+// Open slots for the coming days, skipping ones already in the past or taken
+export function openSlots(
+  availability: Availability,
+  taken: { date: string; time: string }[],
+  from = new Date(),
+  days = BOOKING_HORIZON_DAYS,
+): DaySlots[] {
+  const result: DaySlots[] = []
+
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset)
+    const date = formatDate(day)
+
+    const times = slotsOn(availability, date).filter(
+      (time) =>
+        new Date(`${date}T${time}`) > from && !taken.some((slot) => slot.date === date && slot.time === time),
+    )
+    if (times.length > 0) result.push({ date, times })
+  }
+
+  return result
+}
+
+// Validates an availability payload from a client, or returns null when it's malformed
+export function parseAvailability(value: unknown): Availability | null {
+  if (!value || typeof value !== "object") return null
+  const { windows, blackoutDates } = value as Record<string, unknown>
+  if (!Array.isArray(windows) || !Array.isArray(blackoutDates)) return null
+
+  const parsedWindows: AvailabilityWindow[] = []
+  for (const window of windows) {
+    const { weekday, start, end } = (window ?? {}) as Record<string, unknown>
+    if (!Number.isInteger(weekday) || (weekday as number) < 0 || (weekday as number) > 6) return null
+    if (typeof start !== "string" || typeof end !== "string") return null
+    if (!timePattern.test(start) || !timePattern.test(end) || toMinutes(start) >= toMinutes(end)) return null
+    parsedWindows.push({ weekday: weekday as number, start, end })
+  }
+
+  if (!blackoutDates.every((date) => typeof date === "string" && datePattern.test(date))) return null
+
+  return {
+    windows: parsedWindows.sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start)),
+    blackoutDates: [...new Set(blackoutDates as string[])].sort(),
+  }
+}
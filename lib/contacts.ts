@@ -0,0 +1,77 @@
+import { readDb, updateDb } from "@/lib/db"
+import { HttpError } from "@/lib/http"
+import { isMailAddress, sendMail } from "@/lib/mailer"
+import { assertListed, findOwner, getOwnedRoom } from "@/lib/rooms"
+import type { ContactMethod, ContactStats, User } from "@/lib/types"
+
+const MAX_EMAIL_LENGTH = 5000
+
+// Records the attempt and returns the room and its owner's account for the relay
+function logContact(user: User, roomId: number, method: ContactMethod) {
+  return updateDb((db) => {
+    const room = db.rooms.find((r) => r.id === roomId)
+    const owner = room && findOwner(db, room)
+    if (!room || !owner) throw new HttpError("Room not found", 404)
+    if (owner.id === user.id) throw new HttpError("This is your own listing", 400)
+    assertListed(room)
+
+    db.contacts.push({
+      id: db.contacts.reduce((max, c) => Math.max(max, c.id), 0) + 1,
+      roomId,
+      tenantId: user.id,
+      method,
+      createdAt: new Date().toISOString(),
+    })
+    return { room, owner }
+  })
+}
+
+export async function revealPhone(user: User, roomId: number): Promise<string> {
+  const { owner } = await logContact(user, roomId, "call")
+  if (!owner.phone) throw new HttpError("The owner hasn't shared a phone number. Try chat or email instead.", 404)
+  return owner.phone
+}
+
+// Emails the owner on the tenant's behalf; the owner's address never leaves the server
+export async function relayEmail(user: User, roomId: number, message: string): Promise<void> {
+  const text = message.trim()
+  if (!text) throw new HttpError("Message can't be empty", 400)
+  if (text.length > MAX_EMAIL_LENGTH) throw new HttpError(`Emails can be at most ${MAX_EMAIL_LENGTH} characters`, 400)
+  // Accounts from before registration validated emails may hold addresses we can't put in Reply-To
+  if (!isMailAddress(user.email)) {
+    throw new HttpError("Your account email isn't a valid address, so the owner couldn't reply. Try chat instead.", 400)
+  }
+
+  const { room, owner } = await logContact(user, roomId, "email")
+
+  try {
+    await sendMail({
+      to: owner.email,
+      replyTo: user.email,
+      subject: `Enquiry about "${room.title}" from ${user.name}`,
+      text: `${text}\n\n--\nSent by ${user.name} <${user.email}> via Premium Room Finder. Reply to this email to answer them directly.`,
+    })
+  } catch (error) {
+    console.error("Email relay failed", error)
+    throw new HttpError("Couldn't deliver your email right now. Please try again later.", 502)
+  }
+}
+
+export async function getContactStats(user: User, roomId: number): Promise<ContactStats> {
+  await getOwnedRoom(roomId, user)
+  const db = await readDb()
+  const contacts = db.contacts.filter((contact) => contact.roomId === roomId)
+
+  return {
+    calls: contacts.filter((contact) => contact.method === "call").length,
+    emails: contacts.filter((contact) => contact.method === "email").length,
+    recent: contacts
+      .slice(-5)
+      .reverse()
+      .map((contact) => ({
+        tenantName: db.users.find((u) => u.id === contact.tenantId)?.name ?? "A tenant",
+        method: contact.method,
+        createdAt: contact.createdAt,
+      })),
+  }
+}
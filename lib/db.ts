@@ -0,0 +1,148 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+import type {
+  ContactMethod,
+  Conversation,
+  Message,
+  ReviewReply,
+  RoomDetails,
+  RoomDraft,
+  User,
+  Viewing,
+} from "@/lib/types"
+import type { ReviewScores } from "@/lib/ratings"
+import { seedReviews, seedRooms, seedUsers } from "@/lib/seed"
+
+export interface StoredUser extends User {
+  // Only revealed to logged-in tenants through the contact endpoint
+  phone?: string
+  passwordHash: string
+  salt: string
+  createdAt: string
+}
+
+export interface Session {
+  token: string
+  userId: number
+  expiresAt: string
+}
+
+export interface ContactAttempt {
+  id: number
+  roomId: number
+  tenantId: number
+  method: ContactMethod
+  createdAt: string
+}
+
+export interface StoredReview {
+  id: number
+  roomId: number
+  userId: number
+  userName: string
+  rating: number
+  scores?: ReviewScores
+  comment: string
+  reply?: ReviewReply
+  // Set while a moderator has the review hidden from the listing
+  hiddenAt?: string
+  createdAt: string
+}
+
+export interface ReviewFlag {
+  id: number
+  reviewId: number
+  userId: number
+  reason: string
+  createdAt: string
+  // Set once a moderator hides or restores the review
+  resolvedAt?: string
+}
+
+// A listing in the owner's trash, kept until it's restored or the retention window runs out
+export interface DeletedRoom {
+  room: RoomDetails
+  deletedAt: string
+}
+
+export interface Database {
+  rooms: RoomDetails[]
+  deletedRooms: DeletedRoom[]
+  users: StoredUser[]
+  sessions: Session[]
+  viewings: Viewing[]
+  conversations: Conversation[]
+  messages: Message[]
+  contacts: ContactAttempt[]
+  reviews: StoredReview[]
+  reviewFlags: ReviewFlag[]
+  drafts: RoomDraft[]
+  // Room ids are never reused, so viewings, chats and reviews of a purged listing can't attach to a new one
+  nextRoomId: number
+}
+
+// Location of the JSON store. Override with DATA_DIR to keep data outside the project.
+const dataDir = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+const dbFile = path.join(dataDir, "db.json")
+
+const emptyDatabase = (): Database => ({
+  rooms: [],
+  deletedRooms: [],
+  users: [],
+  sessions: [],
+  viewings: [],
+  conversations: [],
+  messages: [],
+  contacts: [],
+  reviews: [],
+  reviewFlags: [],
+  drafts: [],
+  nextRoomId: 1,
+})
+
+const seedDatabase = (): Database => ({
+  ...emptyDatabase(),
+  rooms: seedRooms(),
+  users: seedUsers(),
+  reviews: seedReviews(),
+})
+
+// Writes are chained on this promise so concurrent requests never interleave
+let queue: Promise<unknown> = Promise.resolve()
+
+async function load(): Promise<Database> {
+  try {
+    const raw = await fs.readFile(dbFile, "utf8")
+    return { ...emptyDatabase(), ...JSON.parse(raw) }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    const db = seedDatabase()
+    await save(db)
+    return db
+  }
+}
+
+async function save(db: Database) {
+  await fs.mkdir(dataDir, { recursive: true })
+  const tmpFile = `${dbFile}.tmp`
+  await fs.writeFile(tmpFile, JSON.stringify(db, null, 2))
+  await fs.rename(tmpFile, dbFile)
+}
+
+export function readDb(): Promise<Database> {
+  const result = queue.then(load)
+  queue = result.catch(() => undefined)
+  return result
+}
+
+export function updateDb<T>(mutate: (db: Database) => T): Promise<T> {
+  const result = queue.then(async () => {
+    const db = await load()
+    const value = mutate(db)
+    await save(db)
+    return value
+  })
+  queue = result.catch(() => undefined)
+  return result
+}
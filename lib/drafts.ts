@@ -0,0 +1,95 @@
+import { readDb, updateDb, type Database } from "@/lib/db"
+import { HttpError } from "@/lib/http"
+import { roomFieldNames } from "@/lib/room-schema"
+import { insertRoom, locateRoom, parseRoomInput } from "@/lib/rooms"
+import type { RoomDetails, RoomDraft, RoomInput, User } from "@/lib/types"
+
+const MAX_DRAFTS_PER_OWNER = 20
+// Drafts are stored as-is, so cap their size instead of validating every field
+const MAX_DRAFT_BYTES = 64 * 1024
+
+// Keeps the listing fields and drops anything else the client sent
+function toDraftValues(values: unknown): Partial<RoomInput> {
+  if (!values || typeof values !== "object") throw new HttpError("Draft values must be an object", 400)
+  if (JSON.stringify(values).length > MAX_DRAFT_BYTES) throw new HttpError("This draft is too large to save", 413)
+
+  const source = values as Record<string, unknown>
+  return Object.fromEntries(
+    roomFieldNames.filter((name) => source[name] !== undefined).map((name) => [name, source[name]]),
+  ) as Partial<RoomInput>
+}
+
+function toStep(step: unknown) {
+  return Number.isInteger(step) && (step as number) >= 0 ? (step as number) : 0
+}
+
+function findOwnDraft(db: Database, user: User, id: number) {
+  const draft = db.drafts.find((d) => d.id === id)
+  if (!draft || draft.ownerId !== user.id) throw new HttpError("Draft not found", 404)
+  return draft
+}
+
+export async function listDrafts(user: User): Promise<RoomDraft[]> {
+  const db = await readDb()
+  return db.drafts
+    .filter((draft) => draft.ownerId === user.id)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function getDraft(user: User, id: number): Promise<RoomDraft> {
+  return findOwnDraft(await readDb(), user, id)
+}
+
+export function createDraft(user: User, values: unknown, step: unknown): Promise<RoomDraft> {
+  const draftValues = toDraftValues(values)
+
+  return updateDb((db) => {
+    if (db.drafts.filter((draft) => draft.ownerId === user.id).length >= MAX_DRAFTS_PER_OWNER) {
+      throw new HttpError(`You can keep at most ${MAX_DRAFTS_PER_OWNER} drafts. Delete one to start another.`, 409)
+    }
+
+    const now = new Date().toISOString()
+    const draft: RoomDraft = {
+      id: db.drafts.reduce((max, d) => Math.max(max, d.id), 0) + 1,
+      ownerId: user.id,
+      values: draftValues,
+      step: toStep(step),
+      createdAt: now,
+      updatedAt: now,
+    }
+    db.drafts.push(draft)
+    return draft
+  })
+}
+
+export function saveDraft(user: User, id: number, values: unknown, step: unknown): Promise<RoomDraft> {
+  const draftValues = toDraftValues(values)
+
+  return updateDb((db) => {
+    const draft = findOwnDraft(db, user, id)
+    draft.values = draftValues
+    draft.step = toStep(step)
+    draft.updatedAt = new Date().toISOString()
+    return draft
+  })
+}
+
+export function deleteDraft(user: User, id: number): Promise<void> {
+  return updateDb((db) => {
+    findOwnDraft(db, user, id)
+    db.drafts = db.drafts.filter((draft) => draft.id !== id)
+  })
+}
+
+// Turns the draft into a live listing. The final values are validated like any other listing save.
+export async function publishDraft(user: User, id: number, values: unknown): Promise<RoomDetails> {
+  await getDraft(user, id)
+  const input = await locateRoom({ ...parseRoomInput(values), owner: user.email })
+
+  // Re-check the draft in the same write, so a double submit can't publish it twice
+  return updateDb((db) => {
+    findOwnDraft(db, user, id)
+    db.drafts = db.drafts.filter((draft) => draft.id !== id)
+    return insertRoom(db, input)
+  })
+}
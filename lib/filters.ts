@@ -0,0 +1,202 @@
+import { formatBounds, inBounds, neighbourhoodCentres, parseBounds, type Bounds } from "@/lib/geo"
+import { isRoomStatus, roomStatus } from "@/lib/listing-status"
+import type { RoomDetails, RoomStatus } from "@/lib/types"
+
+export interface NumberRange {
+  min?: number
+  max?: number
+}
+
+export function isRangeActive(range: NumberRange) {
+  return range.min !== undefined || range.max !== undefined
+}
+
+export function inRange(value: number, range: NumberRange) {
+  if (range.min !== undefined && value < range.min) return false
+  if (range.max !== undefined && value > range.max) return false
+  return true
+}
+
+// Label for a filter chip, e.g. "₹5000 – ₹15000" or "≤ ₹15000"
+export function formatRange(range: NumberRange) {
+  if (range.min !== undefined && range.max !== undefined) return `₹${range.min} – ₹${range.max}`
+  if (range.min !== undefined) return `≥ ₹${range.min}`
+  if (range.max !== undefined) return `≤ ₹${range.max}`
+  return "Any"
+}
+
+export type SortOption = "featured" | "newest" | "rent-asc" | "rent-desc" | "rating" | "reviews"
+
+export const sortOptions: { value: SortOption; label: string }[] = [
+  { value: "featured", label: "Featured First" },
+  { value: "newest", label: "Most Recent" },
+  { value: "rent-asc", label: "Price: Low to High" },
+  { value: "rent-desc", label: "Price: High to Low" },
+  { value: "rating", label: "Rating: High to Low" },
+  { value: "reviews", label: "Most Reviewed" },
+]
+
+export function isSortOption(value: unknown): value is SortOption {
+  return sortOptions.some((option) => option.value === value)
+}
+
+const byNewest = (a: RoomDetails, b: RoomDetails) =>
+  (b.createdAt ?? "").localeCompare(a.createdAt ?? "") || b.id - a.id
+
+// Returns a sorted copy; ties fall back to newest first so the order is stable across views
+export function sortRooms(rooms: RoomDetails[], sortBy: SortOption): RoomDetails[] {
+  const compare: Record<SortOption, (a: RoomDetails, b: RoomDetails) => number> = {
+    featured: (a, b) => Number(!!b.featured) - Number(!!a.featured),
+    newest: () => 0,
+    "rent-asc": (a, b) => Number(a.rent) - Number(b.rent),
+    "rent-desc": (a, b) => Number(b.rent) - Number(a.rent),
+    rating: (a, b) => (b.rating ?? 0) - (a.rating ?? 0),
+    reviews: (a, b) => (b.reviews ?? 0) - (a.reviews ?? 0),
+  }
+
+  return [...rooms].sort((a, b) => compare[sortBy](a, b) || byNewest(a, b))
+}
+
+export const DEFAULT_PAGE_SIZE = 9
+
+export interface RoomQuery {
+  search?: string
+  amenities?: string[]
+  locations?: string[]
+  rent?: NumberRange
+  deposit?: NumberRange
+  // Map area drawn or panned to on the dashboard
+  bounds?: Bounds
+  // Rooms free to move into on this date (YYYY-MM-DD) and/or for this many months
+  moveIn?: string
+  stayMonths?: number
+  // Only rooms owned by the logged-in user
+  mine?: boolean
+  // Listing statuses to include; only owners can see anything other than published rooms
+  statuses?: RoomStatus[]
+  // Restrict to these room ids (used for the wishlist)
+  ids?: number[]
+  sort?: SortOption
+  page?: number
+  pageSize?: number
+}
+
+export interface RoomPage {
+  rooms: RoomDetails[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+  // Highest rent and deposit across all listings, for sizing the range sliders
+  maxRent: number
+  maxDeposit: number
+}
+
+function parseNumber(value: string | null) {
+  if (value === null || value.trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function parseDate(value: string | null) {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined
+}
+
+export function roomQueryToSearchParams(query: RoomQuery) {
+  const params = new URLSearchParams()
+
+  if (query.search) params.set("q", query.search)
+  query.amenities?.forEach((amenity) => params.append("amenity", amenity))
+  query.locations?.forEach((location) => params.append("location", location))
+  if (query.rent?.min !== undefined) params.set("minRent", String(query.rent.min))
+  if (query.rent?.max !== undefined) params.set("maxRent", String(query.rent.max))
+  if (query.deposit?.min !== undefined) params.set("minDeposit", String(query.deposit.min))
+  if (query.deposit?.max !== undefined) params.set("maxDeposit", String(query.deposit.max))
+  if (query.bounds) params.set("bbox", formatBounds(query.bounds))
+  if (query.moveIn) params.set("moveIn", query.moveIn)
+  if (query.stayMonths) params.set("stay", String(query.stayMonths))
+  if (query.mine) params.set("mine", "true")
+  query.statuses?.forEach((status) => params.append("status", status))
+  if (query.ids) params.set("ids", query.ids.join(","))
+  if (query.sort) params.set("sort", query.sort)
+  if (query.page && query.page > 1) params.set("page", String(query.page))
+  if (query.pageSize) params.set("pageSize", String(query.pageSize))
+
+  return params
+}
+
+export function searchParamsToRoomQuery(params: URLSearchParams): RoomQuery {
+  const sort = params.get("sort")
+  const ids = params.get("ids")
+
+  return {
+    search: params.get("q") ?? undefined,
+    amenities: params.getAll("amenity"),
+    locations: params.getAll("location"),
+    rent: { min: parseNumber(params.get("minRent")), max: parseNumber(params.get("maxRent")) },
+    deposit: { min: parseNumber(params.get("minDeposit")), max: parseNumber(params.get("maxDeposit")) },
+    bounds: parseBounds(params.get("bbox")),
+    moveIn: parseDate(params.get("moveIn")),
+    stayMonths: parseNumber(params.get("stay")),
+    mine: params.get("mine") === "true",
+    statuses: params.getAll("status").filter(isRoomStatus),
+    ids: ids === null ? undefined : ids.split(",").filter(Boolean).map(Number),
+    sort: isSortOption(sort) ? sort : undefined,
+    page: parseNumber(params.get("page")),
+    pageSize: parseNumber(params.get("pageSize")),
+  }
+}
+
+function addMonths(date: string, months: number) {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1 + months, day)).toISOString().slice(0, 10)
+}
+
+// A room fits when it's free from the move-in date for the whole stay and its lease terms allow that length
+export function matchesStay(room: RoomDetails, moveIn?: string, stayMonths?: number) {
+  if (moveIn) {
+    if (room.availableFrom && room.availableFrom > moveIn) return false
+    const moveOut = stayMonths ? addMonths(moveIn, stayMonths) : moveIn
+    if (room.availableUntil && room.availableUntil < moveOut) return false
+  }
+
+  if (stayMonths) {
+    if (room.minimumStayMonths && stayMonths < room.minimumStayMonths) return false
+    if (room.maximumStayMonths && stayMonths > room.maximumStayMonths) return false
+  }
+
+  return true
+}
+
+// Applies every filter in the query except paging, which the caller does after counting
+export function filterRooms(rooms: RoomDetails[], query: RoomQuery): RoomDetails[] {
+  const search = query.search?.trim().toLowerCase() ?? ""
+
+  return rooms.filter((room) => {
+    if (query.ids && !query.ids.includes(room.id)) return false
+    if (query.statuses?.length && !query.statuses.includes(roomStatus(room))) return false
+
+    const matchesSearch =
+      room.title.toLowerCase().includes(search) ||
+      room.location.toLowerCase().includes(search) ||
+      room.description.toLowerCase().includes(search)
+
+    const matchesAmenities = (query.amenities ?? []).every((amenity) => room.amenities.includes(amenity))
+    const matchesLocation = !query.locations?.length || query.locations.includes(room.location)
+
+    const matchesPrice =
+      inRange(Number(room.rent), query.rent ?? {}) && inRange(Number(room.deposit), query.deposit ?? {})
+
+    const position = room.coordinates ?? neighbourhoodCentres[room.location]
+    const matchesArea = !query.bounds || (!!position && inBounds(position, query.bounds))
+
+    return (
+      matchesSearch &&
+      matchesAmenities &&
+      matchesLocation &&
+      matchesPrice &&
+      matchesArea &&
+      matchesStay(room, query.moveIn, query.stayMonths)
+    )
+  })
+}
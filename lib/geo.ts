@@ -0,0 +1,88 @@
+export interface Coordinates {
+  lat: number
+  lng: number
+}
+
+export interface Bounds {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+export interface PointOfInterest {
+  name: string
+  category: "transit" | "shopping" | "food" | "health" | "education" | "park"
+  coordinates: Coordinates
+}
+
+// Map tiles; point NEXT_PUBLIC_MAP_TILE_URL at a local tile server to run offline
+export const tileUrl = process.env.NEXT_PUBLIC_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png"
+export const tileAttribution =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+
+// Approximate centre of each neighbourhood offered in the listing form
+export const neighbourhoodCentres: Record<string, Coordinates> = {
+  Downtown: { lat: 12.9716, lng: 77.5946 },
+  "North Side": { lat: 13.0358, lng: 77.597 },
+  "South Side": { lat: 12.9081, lng: 77.5855 },
+  "East Side": { lat: 12.9784, lng: 77.6408 },
+  "West Side": { lat: 12.9719, lng: 77.5307 },
+  Central: { lat: 12.9762, lng: 77.6033 },
+  Suburban: { lat: 12.8452, lng: 77.6602 },
+  "University Area": { lat: 12.9507, lng: 77.5848 },
+}
+
+export const pointsOfInterest: PointOfInterest[] = [
+  { name: "MG Road Metro", category: "transit", coordinates: { lat: 12.9755, lng: 77.6068 } },
+  { name: "Majestic Bus Station", category: "transit", coordinates: { lat: 12.9767, lng: 77.5713 } },
+  { name: "Indiranagar Metro", category: "transit", coordinates: { lat: 12.9784, lng: 77.6386 } },
+  { name: "Yeshwanthpur Station", category: "transit", coordinates: { lat: 13.0232, lng: 77.5503 } },
+  { name: "Jayanagar Metro", category: "transit", coordinates: { lat: 12.9305, lng: 77.5802 } },
+  { name: "Commercial Street", category: "shopping", coordinates: { lat: 12.9822, lng: 77.6083 } },
+  { name: "Phoenix Marketcity", category: "shopping", coordinates: { lat: 12.9975, lng: 77.6966 } },
+  { name: "Jayanagar 4th Block Market", category: "shopping", coordinates: { lat: 12.9293, lng: 77.5826 } },
+  { name: "Church Street Cafés", category: "food", coordinates: { lat: 12.9752, lng: 77.6046 } },
+  { name: "100 Feet Road Eateries", category: "food", coordinates: { lat: 12.9719, lng: 77.6412 } },
+  { name: "Victoria Hospital", category: "health", coordinates: { lat: 12.9635, lng: 77.5738 } },
+  { name: "Manipal Hospital", category: "health", coordinates: { lat: 12.9592, lng: 77.6484 } },
+  { name: "Bangalore University", category: "education", coordinates: { lat: 12.9499, lng: 77.5036 } },
+  { name: "National College", category: "education", coordinates: { lat: 12.9508, lng: 77.5733 } },
+  { name: "Cubbon Park", category: "park", coordinates: { lat: 12.9763, lng: 77.5929 } },
+  { name: "Lalbagh Botanical Garden", category: "park", coordinates: { lat: 12.9507, lng: 77.5848 } },
+  { name: "Hebbal Lake", category: "park", coordinates: { lat: 13.0452, lng: 77.5913 } },
+]
+
+export function inBounds({ lat, lng }: Coordinates, bounds: Bounds) {
+  return lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east
+}
+
+// Serialised as "south,west,north,east" in query strings
+export function formatBounds(bounds: Bounds) {
+  return [bounds.south, bounds.west, bounds.north, bounds.east].map((n) => n.toFixed(5)).join(",")
+}
+
+export function parseBounds(value: string | null): Bounds | undefined {
+  const parts = value?.split(",").map(Number)
+  if (!parts || parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) return undefined
+
+  const [south, west, north, east] = parts
+  return { south, west, north, east }
+}
+
+// Great-circle distance in kilometres
+export function distanceKm(a: Coordinates, b: Coordinates) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 6371 * 2 * Math.asin(Math.sqrt(h))
+}
+
+export function nearbyPlaces(origin: Coordinates, radiusKm = 3) {
+  return pointsOfInterest
+    .map((place) => ({ ...place, distanceKm: distanceKm(origin, place.coordinates) }))
+    .filter((place) => place.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+}
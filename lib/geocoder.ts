@@ -0,0 +1,33 @@
+import { neighbourhoodCentres, type Coordinates } from "@/lib/geo"
+
+// Set GEOCODER_URL to a Nominatim-compatible search endpoint (e.g. a local instance)
+// to geocode full addresses; otherwise listings are placed at their neighbourhood centre.
+const geocoderUrl = process.env.GEOCODER_URL
+
+async function searchAddress(address: string): Promise<Coordinates | null> {
+  if (!geocoderUrl) return null
+
+  try {
+    const url = new URL(geocoderUrl)
+    url.searchParams.set("q", address)
+    url.searchParams.set("format", "json")
+    url.searchParams.set("limit", "1")
+
+    const res = await fetch(url, { headers: { Accept: "application/json" } })
+    if (!res.ok) return null
+
+    const [match] = await res.json()
+    return match ? { lat: Number(match.lat), lng: Number(match.lon) } : null
+  } catch {
+    return null
+  }
+}
+
+export async function geocode(address: string | undefined, neighbourhood: string): Promise<Coordinates | null> {
+  if (address) {
+    const match = await searchAddress(`${address}, ${neighbourhood}`)
+    if (match) return match
+  }
+
+  return neighbourhoodCentres[neighbourhood] ?? null
+}
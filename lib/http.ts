@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
+
+// Turns a thrown HttpError into a JSON error response; anything else is rethrown
+export function errorResponse(error: unknown) {
+  if (error instanceof HttpError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  throw error
+}
+
+// Parses a request body that should be a JSON object; malformed or non-object bodies are a 400
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  const body: unknown = await request.json().catch(() => null)
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new HttpError("Request body must be a JSON object", 400)
+  }
+  return body as Record<string, unknown>
+}
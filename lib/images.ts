@@ -0,0 +1,30 @@
+import type { RoomDetails } from "@/lib/types"
+
+// Uploaded listing photos are served from /api/uploads, each with a full-size and a thumbnail variant
+export type ImageVariant = "thumb" | "full"
+
+const uploadPrefix = "/api/uploads/"
+
+export const uploadUrl = (id: string, variant: ImageVariant) => `${uploadPrefix}${id}-${variant}.webp`
+
+// Card-sized version of a listing image; images that weren't uploaded here are returned unchanged
+export function thumbnailUrl(src: string) {
+  return src.startsWith(uploadPrefix) ? src.replace(/-full\.webp$/, "-thumb.webp") : src
+}
+
+export const isImageKey = (key: string) => /^[0-9a-f-]{36}-(thumb|full)\.webp$/.test(key)
+
+// A listing may only reference its full-size uploads, or the placeholder the seed listings use. Blob and data
+// URLs only exist in the browser that created them, and outside URLs could point anywhere.
+export function isStableImageUrl(src: string) {
+  if (src.startsWith(uploadPrefix)) {
+    const key = src.slice(uploadPrefix.length)
+    return isImageKey(key) && key.endsWith("-full.webp")
+  }
+  return /^\/placeholder\.svg(\?height=\d+&width=\d+)?$/.test(src)
+}
+
+// Alt text for a listing photo: the owner's caption, or a generic description
+export function imageAlt(room: Pick<RoomDetails, "title" | "images" | "imageCaptions">, index: number) {
+  return room.imageCaptions?.[room.images[index]] || `${room.title} - Image ${index + 1}`
+}
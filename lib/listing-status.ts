@@ -0,0 +1,39 @@
+import type { RoomDetails, RoomStatus, RoomStatusAction } from "@/lib/types"
+
+export const roomStatuses: { value: RoomStatus; label: string }[] = [
+  { value: "published", label: "Published" },
+  { value: "paused", label: "Paused" },
+  { value: "rented", label: "Rented" },
+  { value: "archived", label: "Archived" },
+]
+
+export function isRoomStatus(value: unknown): value is RoomStatus {
+  return roomStatuses.some((status) => status.value === value)
+}
+
+export function roomStatusLabel(status: RoomStatus) {
+  return roomStatuses.find((s) => s.value === status)?.label ?? status
+}
+
+// Listings saved before statuses existed were all live
+export function roomStatus(room: Pick<RoomDetails, "status">): RoomStatus {
+  return room.status ?? "published"
+}
+
+// What each owner action moves a listing to, and the statuses it can be taken from
+export const statusActions: Record<RoomStatusAction, { label: string; to: RoomStatus; from: RoomStatus[] }> = {
+  publish: { label: "Publish", to: "published", from: ["paused", "rented", "archived"] },
+  pause: { label: "Pause", to: "paused", from: ["published"] },
+  rent: { label: "Mark as Rented", to: "rented", from: ["published", "paused"] },
+  archive: { label: "Archive", to: "archived", from: ["published", "paused", "rented"] },
+}
+
+export function isStatusAction(value: unknown): value is RoomStatusAction {
+  return typeof value === "string" && Object.hasOwn(statusActions, value)
+}
+
+export function availableStatusActions(status: RoomStatus): RoomStatusAction[] {
+  return (Object.keys(statusActions) as RoomStatusAction[]).filter((action) =>
+    statusActions[action].from.includes(status),
+  )
+}
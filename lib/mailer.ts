@@ -0,0 +1,112 @@
+import { promises as fs } from "fs"
+import net from "net"
+import path from "path"
+
+export interface Mail {
+  to: string
+  replyTo?: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  send(mail: Mail): Promise<void>
+}
+
+// Sender shown on relayed mail; replies go to the tenant through Reply-To
+const mailFrom = process.env.MAIL_FROM || "no-reply@premium-room-finder.local"
+
+// A bare addr-spec with no whitespace or bracket characters, so it can't break out of a header or SMTP command
+export function isMailAddress(value: string) {
+  return value.length <= 254 && /^[^\s@<>()[\]",;:\\]+@[^\s@<>()[\]",;:\\]+\.[^\s@<>()[\]",;:\\]+$/.test(value)
+}
+
+function address(value: string) {
+  if (!isMailAddress(value)) throw new Error(`Refusing to send mail with invalid address ${JSON.stringify(value)}`)
+  return value
+}
+
+function formatMessage(mail: Mail) {
+  const headers = [
+    `From: ${address(mailFrom)}`,
+    `To: ${address(mail.to)}`,
+    ...(mail.replyTo ? [`Reply-To: ${address(mail.replyTo)}`] : []),
+    `Subject: ${mail.subject.replace(/[\r\n]+/g, " ")}`,
+    `Date: ${new Date().toUTCString()}`,
+    "Content-Type: text/plain; charset=utf-8",
+  ]
+  return `${headers.join("\r\n")}\r\n\r\n${mail.text.replace(/\r?\n/g, "\r\n")}`
+}
+
+// Drops each message as an .eml file, handy for local development
+export function fileTransport(dir: string): MailTransport {
+  return {
+    async send(mail) {
+      await fs.mkdir(dir, { recursive: true })
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${Math.random().toString(36).slice(2, 8)}.eml`
+      await fs.writeFile(path.join(dir, name), formatMessage(mail), "utf8")
+    },
+  }
+}
+
+// Minimal unauthenticated SMTP client, meant for a local sink such as MailHog or smtp4dev
+export function smtpTransport(host: string, port: number): MailTransport {
+  return {
+    send(mail) {
+      return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host, port })
+        // Dot-stuff lines that start with "." so they aren't read as the end of the message
+        const data = formatMessage(mail).replace(/\r\n\./g, "\r\n..")
+        const commands = [
+          `HELO ${host}`,
+          `MAIL FROM:<${address(mailFrom)}>`,
+          `RCPT TO:<${address(mail.to)}>`,
+          "DATA",
+          `${data}\r\n.`,
+          "QUIT",
+        ]
+        let buffer = ""
+
+        socket.setEncoding("utf8")
+        socket.setTimeout(10_000, () => socket.destroy(new Error("SMTP server timed out")))
+        socket.on("error", reject)
+        socket.on("close", () =>
+          commands.length === 0 ? resolve() : reject(new Error("SMTP server closed the connection early")),
+        )
+        socket.on("data", (chunk: string) => {
+          buffer += chunk
+          // Wait for complete replies; multi-line replies use "250-" until the last line
+          const lines = buffer.split("\r\n")
+          buffer = lines.pop() ?? ""
+
+          for (const line of lines) {
+            if (/^\d{3}-/.test(line)) continue
+            if (!/^[23]\d{2}/.test(line)) {
+              socket.destroy(new Error(`SMTP error: ${line}`))
+              return
+            }
+            const next = commands.shift()
+            if (next) socket.write(`${next}\r\n`)
+          }
+        })
+      })
+    },
+  }
+}
+
+// MAIL_TRANSPORT=smtp sends to SMTP_HOST:SMTP_PORT; anything else writes to the local outbox
+function createTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === "smtp") {
+    return smtpTransport(process.env.SMTP_HOST || "localhost", Number(process.env.SMTP_PORT) || 1025)
+  }
+
+  const dataDir = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+  return fileTransport(process.env.MAIL_OUTBOX_DIR || path.join(dataDir, "outbox"))
+}
+
+let transport: MailTransport | null = null
+
+export function sendMail(mail: Mail) {
+  transport ??= createTransport()
+  return transport.send(mail)
+}
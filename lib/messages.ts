@@ -0,0 +1,145 @@
+import { readDb, updateDb, type Database } from "@/lib/db"
+import { HttpError } from "@/lib/http"
+import { assertListed, findOwner } from "@/lib/rooms"
+import type { Conversation, ConversationSummary, Message, User } from "@/lib/types"
+
+const MAX_MESSAGE_LENGTH = 2000
+
+function roleIn(conversation: Conversation, user: User): ConversationSummary["role"] | null {
+  if (conversation.ownerId === user.id) return "owner"
+  if (conversation.tenantId === user.id) return "tenant"
+  return null
+}
+
+// Messages from the other participant since the user last opened the thread
+function countUnread(db: Database, conversation: Conversation, user: User, role: "owner" | "tenant") {
+  const readAt = (role === "owner" ? conversation.ownerReadAt : conversation.tenantReadAt) ?? ""
+  return db.messages.filter(
+    (message) =>
+      message.conversationId === conversation.id && message.senderId !== user.id && message.createdAt > readAt,
+  ).length
+}
+
+function summarise(db: Database, conversation: Conversation, user: User): ConversationSummary | null {
+  const role = roleIn(conversation, user)
+  if (!role) return null
+  return { ...conversation, role, unread: countUnread(db, conversation, user, role) }
+}
+
+function findConversation(db: Database, id: number, user: User) {
+  const conversation = db.conversations.find((c) => c.id === id)
+  if (!conversation) throw new HttpError("Conversation not found", 404)
+
+  const role = roleIn(conversation, user)
+  if (!role) throw new HttpError("You aren't part of this conversation", 403)
+  return { conversation, role }
+}
+
+export async function listConversations(user: User): Promise<ConversationSummary[]> {
+  const db = await readDb()
+  return db.conversations
+    .map((conversation) => summarise(db, conversation, user))
+    .filter((summary): summary is ConversationSummary => !!summary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function countUnreadMessages(user: User): Promise<number> {
+  const conversations = await listConversations(user)
+  return conversations.reduce((total, conversation) => total + conversation.unread, 0)
+}
+
+// Finds the tenant's thread about a room, starting one if they haven't written yet
+export function startConversation(user: User, roomId: number): Promise<ConversationSummary> {
+  return updateDb((db) => {
+    const room = db.rooms.find((r) => r.id === roomId)
+    const owner = room && findOwner(db, room)
+    if (!room || !owner) throw new HttpError("Room not found", 404)
+    if (owner.id === user.id) throw new HttpError("You can't message yourself about your own listing", 400)
+
+    let conversation = db.conversations.find((c) => c.roomId === roomId && c.tenantId === user.id)
+    if (!conversation) {
+      // Existing threads carry on, but new ones need a live listing
+      assertListed(room)
+      const now = new Date().toISOString()
+      conversation = {
+        id: db.conversations.reduce((max, c) => Math.max(max, c.id), 0) + 1,
+        roomId: room.id,
+        roomTitle: room.title,
+        ownerId: owner.id,
+        ownerName: owner.name,
+        tenantId: user.id,
+        tenantName: user.name,
+        createdAt: now,
+        updatedAt: now,
+      }
+      db.conversations.push(conversation)
+    }
+
+    return summarise(db, conversation, user)!
+  })
+}
+
+function threadOf(db: Database, conversation: Conversation, user: User) {
+  return {
+    conversation: summarise(db, conversation, user)!,
+    messages: db.messages.filter((message) => message.conversationId === conversation.id),
+  }
+}
+
+// Returns the thread with its messages and marks it read for the user. The messages page polls this, so
+// the store is only rewritten when there is something new to mark read.
+export async function openConversation(
+  user: User,
+  id: number,
+): Promise<{ conversation: ConversationSummary; messages: Message[] }> {
+  const snapshot = await readDb()
+  const { conversation, role } = findConversation(snapshot, id, user)
+  if (countUnread(snapshot, conversation, user, role) === 0) return threadOf(snapshot, conversation, user)
+
+  return updateDb((db) => {
+    const { conversation, role } = findConversation(db, id, user)
+
+    const now = new Date().toISOString()
+    if (role === "owner") {
+      conversation.ownerReadAt = now
+    } else {
+      conversation.tenantReadAt = now
+    }
+
+    return threadOf(db, conversation, user)
+  })
+}
+
+export function sendMessage(user: User, id: number, body: string): Promise<Message> {
+  const text = body.trim()
+  if (!text) throw new HttpError("Message can't be empty", 400)
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    throw new HttpError(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`, 400)
+  }
+
+  return updateDb((db) => {
+    const { conversation, role } = findConversation(db, id, user)
+
+    const now = new Date().toISOString()
+    const message: Message = {
+      id: db.messages.reduce((max, m) => Math.max(max, m.id), 0) + 1,
+      conversationId: id,
+      senderId: user.id,
+      senderName: user.name,
+      body: text,
+      createdAt: now,
+    }
+    db.messages.push(message)
+
+    conversation.lastMessage = text
+    conversation.updatedAt = now
+    // The sender has obviously seen everything up to their own message
+    if (role === "owner") {
+      conversation.ownerReadAt = now
+    } else {
+      conversation.tenantReadAt = now
+    }
+
+    return message
+  })
+}
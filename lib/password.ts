@@ -0,0 +1,14 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto"
+
+const KEY_LENGTH = 64
+
+export function hashPassword(password: string, salt = randomBytes(16).toString("hex")) {
+  const passwordHash = scryptSync(password, salt, KEY_LENGTH).toString("hex")
+  return { passwordHash, salt }
+}
+
+export function verifyPassword(password: string, salt: string, passwordHash: string) {
+  const expected = Buffer.from(passwordHash, "hex")
+  const actual = scryptSync(password, salt, KEY_LENGTH)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,51 @@
+import type { Review } from "@/lib/types"
+
+export type ReviewCategory = "cleanliness" | "location" | "value" | "communication" | "accuracy"
+
+export type ReviewScores = Record<ReviewCategory, number>
+
+export const reviewCategories: { key: ReviewCategory; label: string }[] = [
+  { key: "cleanliness", label: "Cleanliness" },
+  { key: "location", label: "Location" },
+  { key: "value", label: "Value" },
+  { key: "communication", label: "Owner Communication" },
+  { key: "accuracy", label: "Accuracy of Listing" },
+]
+
+export interface RatingBreakdown {
+  // Number of reviews at each star level, index 0 = 1 star
+  distribution: number[]
+  // Average per category; undefined when no review scored it
+  categories: Partial<Record<ReviewCategory, number>>
+}
+
+export function isStarRating(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5
+}
+
+// Validates sub-scores from a client; every category needs a 1–5 score
+export function parseScores(value: unknown): ReviewScores | null {
+  if (!value || typeof value !== "object") return null
+  const scores = value as Record<string, unknown>
+  if (!reviewCategories.every(({ key }) => isStarRating(scores[key]))) return null
+  return Object.fromEntries(reviewCategories.map(({ key }) => [key, scores[key]])) as ReviewScores
+}
+
+// Mean of 1–5 star values, rounded to one decimal place
+export const averageRating = (values: number[]) =>
+  Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+
+export function summariseRatings(reviews: Review[]): RatingBreakdown {
+  const distribution = [0, 0, 0, 0, 0]
+  for (const review of reviews) {
+    if (isStarRating(review.rating)) distribution[review.rating - 1]++
+  }
+
+  const categories: RatingBreakdown["categories"] = {}
+  for (const { key } of reviewCategories) {
+    const scores = reviews.map((review) => review.scores?.[key]).filter((score): score is number => !!score)
+    if (scores.length) categories[key] = averageRating(scores)
+  }
+
+  return { distribution, categories }
+}
@@ -0,0 +1,232 @@
+import { readDb, updateDb, type Database, type StoredReview } from "@/lib/db"
+import { HttpError } from "@/lib/http"
+import { averageRating, isStarRating, type ReviewScores } from "@/lib/ratings"
+import { canViewRoom, findOwner } from "@/lib/rooms"
+import type {
+  FlaggedReview,
+  Review,
+  ReviewEligibility,
+  ReviewModerationAction,
+  User,
+} from "@/lib/types"
+
+const MAX_COMMENT_LENGTH = 2000
+const MAX_FLAG_REASON_LENGTH = 500
+
+function toReview(review: StoredReview): Review {
+  return {
+    id: review.id,
+    user: review.userName,
+    avatar: "/placeholder-user.jpg",
+    rating: review.rating,
+    scores: review.scores,
+    date: review.createdAt,
+    comment: review.comment,
+    reply: review.reply,
+  }
+}
+
+function findReview(db: Database, reviewId: number) {
+  const review = db.reviews.find((r) => r.id === reviewId)
+  if (!review) throw new HttpError("Review not found", 404)
+  return review
+}
+
+// Only tenants whose confirmed viewing has already taken place count as verified visitors.
+// Stays aren't tracked separately, so a completed viewing is the proof of a visit.
+function hasVerifiedVisit(db: Database, roomId: number, user: User) {
+  const now = new Date()
+  return db.viewings.some(
+    (viewing) =>
+      viewing.roomId === roomId &&
+      viewing.tenantId === user.id &&
+      viewing.status === "confirmed" &&
+      new Date(`${viewing.date}T${viewing.time}`) <= now,
+  )
+}
+
+function checkEligibility(db: Database, roomId: number, user: User): ReviewEligibility {
+  // Unpublished listings are hidden from everyone but their owner, the same as on the room page
+  const room = db.rooms.find((r) => r.id === roomId)
+  if (!room || !canViewRoom(room, user)) throw new HttpError("Room not found", 404)
+
+  if (findOwner(db, room)?.id === user.id) {
+    return { canReview: false, reason: "You can't review your own listing." }
+  }
+  if (db.reviews.some((review) => review.roomId === roomId && review.userId === user.id)) {
+    return { canReview: false, reason: "You've already reviewed this room." }
+  }
+  if (!hasVerifiedVisit(db, roomId, user)) {
+    return { canReview: false, reason: "You can review this room after a confirmed viewing has taken place." }
+  }
+  return { canReview: true }
+}
+
+export async function listReviews(roomId: number): Promise<Review[]> {
+  const db = await readDb()
+  return db.reviews
+    .filter((review) => review.roomId === roomId && !review.hiddenAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toReview)
+}
+
+export async function getReviewEligibility(user: User, roomId: number): Promise<ReviewEligibility> {
+  return checkEligibility(await readDb(), roomId, user)
+}
+
+// Average rating to one decimal place and review count, recomputed from the visible reviews
+function applyReviewStats(db: Database, roomId: number) {
+  const room = db.rooms.find((r) => r.id === roomId)
+  if (!room) return
+
+  const ratings = db.reviews
+    .filter((review) => review.roomId === roomId && !review.hiddenAt)
+    .map((review) => review.rating)
+  room.reviews = ratings.length
+  room.rating = ratings.length ? averageRating(ratings) : undefined
+}
+
+export function createReview(
+  user: User,
+  roomId: number,
+  review: { rating: number; scores: ReviewScores | null; comment: string },
+): Promise<Review> {
+  const text = review.comment.trim()
+  if (!isStarRating(review.rating)) throw new HttpError("Please choose a rating from 1 to 5 stars", 400)
+  if (!review.scores) throw new HttpError("Please score every category from 1 to 5 stars", 400)
+  if (!text) throw new HttpError("Please tell other tenants about your experience", 400)
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new HttpError(`Reviews can be at most ${MAX_COMMENT_LENGTH} characters`, 400)
+  }
+
+  return updateDb((db) => {
+    const eligibility = checkEligibility(db, roomId, user)
+    if (!eligibility.canReview) throw new HttpError(eligibility.reason ?? "You can't review this room", 403)
+
+    const stored: StoredReview = {
+      id: db.reviews.reduce((max, r) => Math.max(max, r.id), 0) + 1,
+      roomId,
+      userId: user.id,
+      userName: user.name,
+      rating: review.rating,
+      scores: review.scores ?? undefined,
+      comment: text,
+      createdAt: new Date().toISOString(),
+    }
+    db.reviews.push(stored)
+    applyReviewStats(db, roomId)
+
+    return toReview(stored)
+  })
+}
+
+export function replyToReview(user: User, reviewId: number, text: string): Promise<Review> {
+  const reply = text.trim()
+  if (!reply) throw new HttpError("Reply can't be empty", 400)
+  if (reply.length > MAX_COMMENT_LENGTH) {
+    throw new HttpError(`Replies can be at most ${MAX_COMMENT_LENGTH} characters`, 400)
+  }
+
+  return updateDb((db) => {
+    const review = findReview(db, reviewId)
+    const room = db.rooms.find((r) => r.id === review.roomId)
+    if (!room || findOwner(db, room)?.id !== user.id) {
+      throw new HttpError("Only the owner of this room can reply to its reviews", 403)
+    }
+    if (review.reply) throw new HttpError("You've already replied to this review", 409)
+
+    review.reply = { text: reply, createdAt: new Date().toISOString() }
+    return toReview(review)
+  })
+}
+
+export function flagReview(user: User, reviewId: number, reason: string): Promise<void> {
+  const text = reason.trim()
+  if (!text) throw new HttpError("Please tell us what's wrong with this review", 400)
+  if (text.length > MAX_FLAG_REASON_LENGTH) {
+    throw new HttpError(`Reasons can be at most ${MAX_FLAG_REASON_LENGTH} characters`, 400)
+  }
+
+  return updateDb((db) => {
+    const review = findReview(db, reviewId)
+    if (review.hiddenAt) throw new HttpError("Review not found", 404)
+    if (db.reviewFlags.some((flag) => flag.reviewId === reviewId && flag.userId === user.id && !flag.resolvedAt)) {
+      throw new HttpError("You've already reported this review", 409)
+    }
+
+    db.reviewFlags.push({
+      id: db.reviewFlags.reduce((max, f) => Math.max(max, f.id), 0) + 1,
+      reviewId,
+      userId: user.id,
+      reason: text,
+      createdAt: new Date().toISOString(),
+    })
+  })
+}
+
+function requireModerator(user: User) {
+  if (!user.isModerator) throw new HttpError("Only moderators can review reports", 403)
+}
+
+function toFlaggedReview(db: Database, review: StoredReview): FlaggedReview {
+  return {
+    ...toReview(review),
+    roomId: review.roomId,
+    roomTitle: db.rooms.find((room) => room.id === review.roomId)?.title ?? "Deleted listing",
+    hidden: !!review.hiddenAt,
+    flags: db.reviewFlags
+      .filter((flag) => flag.reviewId === review.id)
+      .map((flag) => ({
+        userName: db.users.find((u) => u.id === flag.userId)?.name ?? "A user",
+        reason: flag.reason,
+        createdAt: flag.createdAt,
+        resolved: !!flag.resolvedAt,
+      })),
+  }
+}
+
+// Reviews with open reports come first, newest report first, followed by hidden reviews
+export async function listFlaggedReviews(user: User): Promise<FlaggedReview[]> {
+  requireModerator(user)
+  const db = await readDb()
+  const latestOpenFlag = (reviewId: number) =>
+    db.reviewFlags
+      .filter((flag) => flag.reviewId === reviewId && !flag.resolvedAt)
+      .reduce((latest, flag) => (flag.createdAt > latest ? flag.createdAt : latest), "")
+
+  return db.reviews
+    .filter((review) => review.hiddenAt || latestOpenFlag(review.id))
+    .sort(
+      (a, b) =>
+        latestOpenFlag(b.id).localeCompare(latestOpenFlag(a.id)) ||
+        (b.hiddenAt ?? "").localeCompare(a.hiddenAt ?? ""),
+    )
+    .map((review) => toFlaggedReview(db, review))
+}
+
+// Hiding takes the review off the listing; restoring puts it back. Either way its open reports are resolved.
+export function moderateReview(user: User, reviewId: number, action: ReviewModerationAction): Promise<FlaggedReview> {
+  requireModerator(user)
+
+  return updateDb((db) => {
+    const review = findReview(db, reviewId)
+    const now = new Date().toISOString()
+
+    switch (action) {
+      case "hide":
+        review.hiddenAt ??= now
+        break
+      case "restore":
+        delete review.hiddenAt
+        break
+      default:
+        throw new HttpError("Unknown action", 400)
+    }
+
+    for (const flag of db.reviewFlags) {
+      if (flag.reviewId === reviewId && !flag.resolvedAt) flag.resolvedAt = now
+    }
+    applyReviewStats(db, review.roomId)
+    return toFlaggedReview(db, review)
+  })
+}
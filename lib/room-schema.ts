@@ -0,0 +1,114 @@
+import { z } from "zod"
+
+import { neighbourhoodCentres } from "@/lib/geo"
+import { isStableImageUrl } from "@/lib/images"
+
+export const roomAmenities = [
+  "WiFi",
+  "Attached Bathroom",
+  "Furnished",
+  "AC",
+  "Kitchen Access",
+  "Parking",
+  "Balcony",
+  "TV",
+  "Washing Machine",
+  "Gym Access",
+  "Near Metro",
+  "Pets Allowed",
+]
+
+// Neighbourhoods a listing can be placed in; each has a map centre in lib/geo
+export const roomLocations = Object.keys(neighbourhoodCentres)
+
+export const MAX_IMAGES = 20
+export const MAX_CAPTION_LENGTH = 200
+const MAX_STAY_MONTHS = 120
+
+// Rupee amounts are kept as strings on listings, so validate the text rather than coercing it
+const amount = (label: string, { allowZero }: { allowZero: boolean }) =>
+  z
+    .string({ required_error: `${label} is required` })
+    .trim()
+    .min(1, `${label} is required`)
+    .regex(/^\d+(\.\d{1,2})?$/, `${label} must be a number, e.g. 12000`)
+    .refine((value) => allowZero || Number(value) > 0, `${label} must be more than 0`)
+
+const date = (label: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be a valid date`)
+    .optional()
+
+const months = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number of months` })
+    .int(`${label} must be a whole number of months`)
+    .min(1, `${label} must be at least 1 month`)
+    .max(MAX_STAY_MONTHS, `${label} can be at most ${MAX_STAY_MONTHS} months`)
+    .optional()
+
+const roomFieldsSchema = z.object({
+  title: z
+    .string({ required_error: "Title is required" })
+    .trim()
+    .min(5, "Title must be at least 5 characters")
+    .max(100, "Title can be at most 100 characters"),
+  rent: amount("Rent", { allowZero: false }),
+  deposit: amount("Deposit", { allowZero: true }),
+  description: z.string().trim().max(5000, "Description can be at most 5000 characters").default(""),
+  location: z
+    .string({ required_error: "Please choose a location" })
+    .refine((location) => roomLocations.includes(location), "Please choose a location"),
+  address: z.string().trim().max(200, "Address can be at most 200 characters").optional(),
+  amenities: z
+    .array(z.string().refine((amenity) => roomAmenities.includes(amenity), "Unknown amenity"))
+    .default([]),
+  images: z
+    .array(z.string().refine(isStableImageUrl, "Images must be uploaded before saving"))
+    .max(MAX_IMAGES, `A listing can have at most ${MAX_IMAGES} images`)
+    .default([]),
+  imageCaptions: z
+    .record(z.string().trim().max(MAX_CAPTION_LENGTH, `Captions can be at most ${MAX_CAPTION_LENGTH} characters`))
+    .optional(),
+  availableFrom: date("Available from"),
+  availableUntil: date("Available until"),
+  minimumStayMonths: months("Minimum stay"),
+  maximumStayMonths: months("Maximum stay"),
+})
+
+// Names of the fields a listing form edits, e.g. to pick them out of a saved draft
+export const roomFieldNames = Object.keys(roomFieldsSchema.shape) as (keyof RoomFormValues)[]
+
+// The fields an owner fills in for a listing. Shared by the listing form and the save endpoints.
+export const roomInputSchema = roomFieldsSchema.superRefine((room, ctx) => {
+  if (room.availableFrom && room.availableUntil && room.availableFrom > room.availableUntil) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["availableUntil"],
+      message: "Available until must be after available from",
+    })
+  }
+  if (room.minimumStayMonths && room.maximumStayMonths && room.minimumStayMonths > room.maximumStayMonths) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["maximumStayMonths"],
+      message: "Maximum stay can't be shorter than the minimum stay",
+    })
+  }
+})
+
+export type RoomFormValues = z.infer<typeof roomInputSchema>
+
+// Steps of the listing wizard and the fields each one checks before moving on
+export const listingSteps: { title: string; fields: (keyof RoomFormValues)[] }[] = [
+  { title: "Basics", fields: ["title", "description"] },
+  {
+    title: "Pricing & terms",
+    fields: ["rent", "deposit", "availableFrom", "availableUntil", "minimumStayMonths", "maximumStayMonths"],
+  },
+  { title: "Amenities", fields: ["amenities"] },
+  { title: "Photos", fields: ["images", "imageCaptions"] },
+  { title: "Location", fields: ["location", "address"] },
+  { title: "Preview", fields: [] },
+]
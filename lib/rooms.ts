@@ -0,0 +1,261 @@
+import { readDb, updateDb, type Database, type DeletedRoom } from "@/lib/db"
+import { geocode } from "@/lib/geocoder"
+import { DEFAULT_PAGE_SIZE, filterRooms, sortRooms, type RoomPage, type RoomQuery } from "@/lib/filters"
+import { HttpError } from "@/lib/http"
+import { isStatusAction, roomStatus, roomStatusLabel, statusActions } from "@/lib/listing-status"
+import { roomInputSchema } from "@/lib/room-schema"
+import type { OwnerDetails, RoomDetails, RoomInput, RoomStatusAction, TrashedRoom, User } from "@/lib/types"
+
+const MAX_PAGE_SIZE = 50
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// TRASH_RETENTION_DAYS accepts any non-negative number of days, fractions included. 0 turns the trash off:
+// deleted listings are purged straight away and can't be restored or undone.
+function parseRetentionDays(value: string | undefined) {
+  if (value === undefined || value.trim() === "") return DEFAULT_TRASH_RETENTION_DAYS
+
+  const days = Number(value)
+  if (Number.isFinite(days) && days >= 0) return days
+
+  console.warn(`Ignoring TRASH_RETENTION_DAYS=${value}; using ${DEFAULT_TRASH_RETENTION_DAYS} days`)
+  return DEFAULT_TRASH_RETENTION_DAYS
+}
+
+// Days a deleted listing stays in the trash before it's removed for good
+const TRASH_RETENTION_DAYS = parseRetentionDays(process.env.TRASH_RETENTION_DAYS)
+
+export async function queryRooms(query: RoomQuery, user: User | null): Promise<RoomPage> {
+  const db = await readDb()
+
+  // Owners see every listing of theirs in any status; everyone else only sees published ones
+  const rooms = query.mine
+    ? db.rooms.filter((room) => user && room.owner === user.email)
+    : db.rooms.filter((room) => roomStatus(room) === "published")
+
+  const matches = sortRooms(filterRooms(rooms, query), query.sort ?? "featured")
+
+  const pageSize = Math.min(Math.max(1, Math.floor(query.pageSize ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE)
+  const totalPages = Math.max(1, Math.ceil(matches.length / pageSize))
+  const page = Math.min(Math.max(1, Math.floor(query.page ?? 1)), totalPages)
+
+  return {
+    rooms: matches.slice((page - 1) * pageSize, page * pageSize).map((room) => toPublicRoom(room, user)),
+    total: matches.length,
+    page,
+    pageSize,
+    totalPages,
+    maxRent: Math.max(0, ...rooms.map((room) => Number(room.rent) || 0)),
+    maxDeposit: Math.max(0, ...rooms.map((room) => Number(room.deposit) || 0)),
+  }
+}
+
+// Swaps the owner's email for an ownership flag before a room is sent to a client
+export function toPublicRoom(room: RoomDetails, user: User | null): RoomDetails {
+  const { owner, ...rest } = room
+  return { ...rest, isOwner: !!user && owner === user.email }
+}
+
+// Whether the user may open the listing; unpublished listings are only visible to their owner
+export function canViewRoom(room: RoomDetails, user: User | null) {
+  return roomStatus(room) === "published" || (!!user && room.owner === user.email)
+}
+
+// Viewings, chats and contact requests can only be started on a published listing
+export function assertListed(room: RoomDetails) {
+  if (roomStatus(room) !== "published") {
+    const status = roomStatusLabel(roomStatus(room)).toLowerCase()
+    throw new HttpError(`This listing is ${status} and isn't taking enquiries`, 409)
+  }
+}
+
+// Account of the user who listed the room
+export function findOwner(db: Database, room: RoomDetails) {
+  return db.users.find((user) => user.email === room.owner)
+}
+
+export async function getRoom(id: number): Promise<RoomDetails | null> {
+  const db = await readDb()
+  return db.rooms.find((room) => room.id === id) ?? null
+}
+
+// Loads a room the given user is allowed to modify
+export async function getOwnedRoom(id: number, user: User): Promise<RoomDetails> {
+  const room = await getRoom(id)
+  if (!room) throw new HttpError("Room not found", 404)
+  if (room.owner !== user.email) throw new HttpError("You can only modify your own listings", 403)
+  return room
+}
+
+// Public profile shown on the room page for a listing's owner
+export async function getOwnerDetails(owner: string): Promise<OwnerDetails> {
+  const db = await readDb()
+  const user = db.users.find((u) => u.email === owner)
+
+  return {
+    name: user?.name ?? owner.split("@")[0],
+    image: "/placeholder-user.jpg",
+  }
+}
+
+// Adds a new listing inside an updateDb call, for callers that change other records in the same write
+export function insertRoom(db: Database, input: RoomInput): RoomDetails {
+  const now = new Date().toISOString()
+  // Stores written before nextRoomId existed fall back to the highest id still around, trash included
+  const taken = [...db.rooms, ...db.deletedRooms.map((deleted) => deleted.room)]
+  const id = Math.max(db.nextRoomId, taken.reduce((max, r) => Math.max(max, r.id), 0) + 1)
+  db.nextRoomId = id + 1
+
+  // Rating stays unset until the first review comes in
+  const room: RoomDetails = {
+    ...input,
+    status: "published",
+    reviews: 0,
+    id,
+    createdAt: now,
+    updatedAt: now,
+  }
+  db.rooms.unshift(room)
+  return room
+}
+
+export function createRoom(input: RoomInput): Promise<RoomDetails> {
+  return updateDb((db) => insertRoom(db, input))
+}
+
+export function updateRoom(id: number, input: Partial<RoomInput>): Promise<RoomDetails | null> {
+  return updateDb((db) => {
+    const index = db.rooms.findIndex((room) => room.id === id)
+    if (index === -1) return null
+
+    const room = { ...db.rooms[index], ...input, id, updatedAt: new Date().toISOString() }
+    db.rooms[index] = room
+    return room
+  })
+}
+
+// Owner actions that move a listing between published, paused, rented and archived
+export function changeRoomStatus(user: User, id: number, action: RoomStatusAction): Promise<RoomDetails> {
+  if (!isStatusAction(action)) throw new HttpError("Unknown action", 400)
+  const { to, from } = statusActions[action]
+
+  return updateDb((db) => {
+    const room = db.rooms.find((r) => r.id === id)
+    if (!room) throw new HttpError("Room not found", 404)
+    if (room.owner !== user.email) throw new HttpError("You can only modify your own listings", 403)
+
+    const status = roomStatus(room)
+    if (status === to) return room
+    if (!from.includes(status)) {
+      const [current, next] = [status, to].map((s) => roomStatusLabel(s).toLowerCase())
+      throw new HttpError(`This listing is ${current} and can't be changed to ${next}`, 409)
+    }
+
+    room.status = to
+    room.updatedAt = new Date().toISOString()
+    return room
+  })
+}
+
+function purgeAt(deleted: DeletedRoom) {
+  return new Date(new Date(deleted.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS).toISOString()
+}
+
+// Drops trashed listings whose retention window has run out
+function purgeExpiredRooms(db: Database) {
+  const now = new Date().toISOString()
+  db.deletedRooms = db.deletedRooms.filter((deleted) => purgeAt(deleted) > now)
+}
+
+function findDeletedRoom(db: Database, user: User, id: number) {
+  const deleted = db.deletedRooms.find((d) => d.room.id === id)
+  if (!deleted || deleted.room.owner !== user.email) throw new HttpError("Room not found in your trash", 404)
+  return deleted
+}
+
+// Moves the listing to the trash, where the owner can restore it until it's purged
+export function deleteRoom(id: number): Promise<boolean> {
+  return updateDb((db) => {
+    purgeExpiredRooms(db)
+    const room = db.rooms.find((r) => r.id === id)
+    if (!room) return false
+
+    const now = new Date().toISOString()
+    db.rooms = db.rooms.filter((r) => r.id !== id)
+    db.deletedRooms.push({ room, deletedAt: now })
+
+    // Upcoming viewings are called off; restoring the listing doesn't bring them back
+    for (const viewing of db.viewings) {
+      if (viewing.roomId === id && !["declined", "cancelled"].includes(viewing.status)) {
+        viewing.status = "cancelled"
+        viewing.updatedAt = now
+      }
+    }
+    return true
+  })
+}
+
+export async function listDeletedRooms(user: User): Promise<TrashedRoom[]> {
+  const db = await readDb()
+  const now = new Date().toISOString()
+
+  return db.deletedRooms
+    .filter((deleted) => deleted.room.owner === user.email && purgeAt(deleted) > now)
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+    .map((deleted) => ({
+      ...toPublicRoom(deleted.room, user),
+      deletedAt: deleted.deletedAt,
+      purgeAt: purgeAt(deleted),
+    }))
+}
+
+export function restoreRoom(user: User, id: number): Promise<RoomDetails> {
+  return updateDb((db) => {
+    purgeExpiredRooms(db)
+    const deleted = findDeletedRoom(db, user, id)
+
+    db.deletedRooms = db.deletedRooms.filter((d) => d !== deleted)
+    db.rooms.unshift(deleted.room)
+    return deleted.room
+  })
+}
+
+// Deletes a trashed listing for good without waiting for the retention window
+export function purgeRoom(user: User, id: number): Promise<void> {
+  return updateDb((db) => {
+    const deleted = findDeletedRoom(db, user, id)
+    db.deletedRooms = db.deletedRooms.filter((d) => d !== deleted)
+  })
+}
+
+// Validates a listing against the shared schema and keeps only the fields a client is allowed to set
+export function parseRoomInput(body: unknown): RoomInput {
+  const result = roomInputSchema.safeParse(body)
+  if (!result.success) throw new HttpError(result.error.issues[0].message, 400)
+
+  const { address, imageCaptions = {}, availableFrom, availableUntil, minimumStayMonths, maximumStayMonths, ...input } =
+    result.data
+  // Drop empty captions and captions for images that are no longer on the listing
+  const captions = Object.entries(imageCaptions).filter(([src, caption]) => caption && input.images.includes(src))
+
+  // Optional fields are always set so that saving a listing clears the ones left blank
+  return {
+    ...input,
+    address: address || undefined,
+    imageCaptions: captions.length ? Object.fromEntries(captions) : undefined,
+    availableFrom,
+    availableUntil,
+    minimumStayMonths,
+    maximumStayMonths,
+  }
+}
+
+// Places the listing on the map from its address and neighbourhood. If that fails, an edit keeps the old
+// position only when the address is unchanged; coordinates are cleared explicitly because updateRoom merges.
+export async function locateRoom(input: RoomInput, previous?: RoomDetails): Promise<RoomInput> {
+  const coordinates = await geocode(input.address, input.location)
+  if (coordinates) return { ...input, coordinates }
+
+  const moved = !previous || previous.address !== input.address || previous.location !== input.location
+  return { ...input, coordinates: moved ? undefined : previous.coordinates }
+}
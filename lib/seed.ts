@@ -0,0 +1,143 @@
+import { hashPassword } from "@/lib/password"
+import type { StoredReview, StoredUser } from "@/lib/db"
+import type { RoomDetails } from "@/lib/types"
+
+// Demo accounts owning the sample listings; both use the password "password123".
+// The admin account also moderates reported reviews.
+export function seedUsers(): StoredUser[] {
+  const createdAt = new Date().toISOString()
+
+  return [
+    {
+      id: 1,
+      name: "Admin",
+      email: "admin@example.com",
+      phone: "+91 98450 12345",
+      isModerator: true,
+      ...hashPassword("password123"),
+      createdAt,
+    },
+    {
+      id: 2,
+      name: "John Doe",
+      email: "john@example.com",
+      phone: "+91 99000 54321",
+      ...hashPassword("password123"),
+      createdAt,
+    },
+  ]
+}
+
+// Sample listings written to a fresh data store
+export function seedRooms(): RoomDetails[] {
+  const createdAt = new Date().toISOString()
+
+  return [
+    {
+      id: 1,
+      title: "Luxury Studio Apartment",
+      rent: "15000",
+      deposit: "30000",
+      description:
+        "Modern studio apartment with premium furnishings, high ceilings, and lots of natural light. Located in the heart of the city with easy access to public transportation.",
+      images: ["/placeholder.svg?height=400&width=600", "/placeholder.svg?height=400&width=600"],
+      location: "Downtown",
+      address: "14 Residency Road",
+      coordinates: { lat: 12.9702, lng: 77.6003 },
+      amenities: ["WiFi", "AC", "Furnished", "Attached Bathroom", "Kitchen Access"],
+      minimumStayMonths: 6,
+      featured: true,
+      rating: 5,
+      reviews: 1,
+      owner: "admin@example.com",
+      status: "published",
+      createdAt,
+      updatedAt: createdAt,
+    },
+    {
+      id: 2,
+      title: "Cozy Single Room in Shared Flat",
+      rent: "8000",
+      deposit: "16000",
+      description:
+        "Comfortable single room in a well-maintained shared apartment. All utilities included. Great for students or young professionals.",
+      images: ["/placeholder.svg?height=400&width=600"],
+      location: "University Area",
+      address: "22 Lalbagh Fort Road",
+      coordinates: { lat: 12.9547, lng: 77.5801 },
+      amenities: ["WiFi", "Furnished", "Kitchen Access", "Washing Machine"],
+      minimumStayMonths: 3,
+      maximumStayMonths: 12,
+      rating: 4,
+      reviews: 1,
+      owner: "john@example.com",
+      status: "published",
+      createdAt,
+      updatedAt: createdAt,
+    },
+    {
+      id: 3,
+      title: "Spacious 2BHK with Balcony",
+      rent: "22000",
+      deposit: "44000",
+      description:
+        "Large two-bedroom apartment with a beautiful balcony overlooking the city. Recently renovated with modern amenities.",
+      images: [
+        "/placeholder.svg?height=400&width=600",
+        "/placeholder.svg?height=400&width=600",
+        "/placeholder.svg?height=400&width=600",
+      ],
+      location: "East Side",
+      address: "5 CMH Road, Indiranagar",
+      coordinates: { lat: 12.9791, lng: 77.6395 },
+      amenities: ["WiFi", "AC", "Furnished", "Attached Bathroom", "Balcony", "Parking"],
+      availableFrom: "2026-12-01",
+      minimumStayMonths: 11,
+      featured: true,
+      rating: 5,
+      reviews: 1,
+      owner: "admin@example.com",
+      status: "published",
+      createdAt,
+      updatedAt: createdAt,
+    },
+  ]
+}
+
+// Reviews behind the sample listings' ratings; keep `rating` and `reviews` above in step with these
+export function seedReviews(): StoredReview[] {
+  const createdAt = new Date().toISOString()
+
+  return [
+    {
+      id: 1,
+      roomId: 1,
+      userId: 2,
+      userName: "John Doe",
+      rating: 5,
+      scores: { cleanliness: 5, location: 5, value: 4, communication: 5, accuracy: 5 },
+      comment: "Bright, spotless studio and the metro is a two-minute walk. The owner answered every question quickly.",
+      createdAt,
+    },
+    {
+      id: 2,
+      roomId: 2,
+      userId: 1,
+      userName: "Admin",
+      rating: 4,
+      scores: { cleanliness: 4, location: 4, value: 5, communication: 4, accuracy: 3 },
+      comment: "Good value for students. The shared kitchen is kept clean and the flatmates are friendly.",
+      createdAt,
+    },
+    {
+      id: 3,
+      roomId: 3,
+      userId: 2,
+      userName: "John Doe",
+      rating: 5,
+      scores: { cleanliness: 5, location: 4, value: 4, communication: 5, accuracy: 5 },
+      comment: "Spacious, well maintained and the balcony view is lovely. Parking is a real bonus in Indiranagar.",
+      createdAt,
+    },
+  ]
+}
@@ -0,0 +1,186 @@
+import type { Availability } from "@/lib/availability"
+import type { Coordinates } from "@/lib/geo"
+import type { ReviewScores } from "@/lib/ratings"
+
+export interface User {
+  id: number
+  name: string
+  email: string
+  // Can hide and restore reported reviews
+  isModerator?: boolean
+}
+
+export interface OwnerDetails {
+  name: string
+  image?: string
+  responseRate?: number
+  responseTime?: string
+}
+
+export interface Review {
+  id: number
+  user: string
+  avatar: string
+  rating: number
+  // Per-category scores; reviews written before sub-scores existed don't have them
+  scores?: ReviewScores
+  date: string
+  comment: string
+  reply?: ReviewReply
+}
+
+// The owner's public response; each review gets at most one
+export interface ReviewReply {
+  text: string
+  createdAt: string
+}
+
+// Whether the logged-in user may review a room, and why not when they can't
+export interface ReviewEligibility {
+  canReview: boolean
+  reason?: string
+}
+
+export interface RoomDetails {
+  id: number
+  title: string
+  rent: string
+  deposit: string
+  description: string
+  // In display order; the first image is the cover shown on cards
+  images: string[]
+  // Caption and alt text for each image, keyed by its URL
+  imageCaptions?: Record<string, string>
+  location: string
+  address?: string
+  coordinates?: Coordinates
+  amenities: string[]
+  // Lease terms; dates are YYYY-MM-DD and a missing value means no restriction
+  availableFrom?: string
+  availableUntil?: string
+  minimumStayMonths?: number
+  maximumStayMonths?: number
+  // Weekly viewing hours and blackout dates set by the owner
+  availability?: Availability
+  featured?: boolean
+  // Only published listings are shown to tenants; missing on listings saved before statuses existed
+  status?: RoomStatus
+  rating?: number
+  reviews?: number
+  // Owner's email; kept on the server and never sent to clients
+  owner?: string
+  // Set by the API in place of `owner`: whether the logged-in user owns the listing
+  isOwner?: boolean
+  ownerDetails?: OwnerDetails
+  reviewsList?: Review[]
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type RoomInput = Omit<
+  RoomDetails,
+  "id" | "status" | "isOwner" | "ownerDetails" | "reviewsList" | "createdAt" | "updatedAt"
+>
+
+// A deleted listing as shown in the owner's trash
+export interface TrashedRoom extends RoomDetails {
+  deletedAt: string
+  // When the listing will be deleted for good
+  purgeAt: string
+}
+
+// Unfinished listings are kept as drafts (see RoomDraft) rather than as a room status
+export type RoomStatus = "published" | "paused" | "rented" | "archived"
+
+export type RoomStatusAction = "publish" | "pause" | "rent" | "archive"
+
+// A listing the owner hasn't finished yet, autosaved from the listing wizard
+export interface RoomDraft {
+  id: number
+  ownerId: number
+  // Whatever has been filled in so far; only validated when the draft is published
+  values: Partial<RoomInput>
+  // Wizard step the owner was on, so they can pick up where they left off
+  step: number
+  createdAt: string
+  updatedAt: string
+}
+
+export type ViewingStatus = "pending" | "confirmed" | "declined" | "rescheduled" | "cancelled"
+
+export interface Viewing {
+  id: number
+  roomId: number
+  roomTitle: string
+  ownerId: number
+  tenantId: number
+  tenantName: string
+  tenantEmail: string
+  phone?: string
+  message?: string
+  // Local date (YYYY-MM-DD) and time (HH:mm) of the viewing slot
+  date: string
+  time: string
+  status: ViewingStatus
+  createdAt: string
+  updatedAt: string
+}
+
+export type ViewingAction = "confirm" | "decline" | "reschedule" | "cancel"
+
+// One thread per (room, tenant); the owner is whoever owns the room
+export interface Conversation {
+  id: number
+  roomId: number
+  roomTitle: string
+  ownerId: number
+  ownerName: string
+  tenantId: number
+  tenantName: string
+  lastMessage?: string
+  // When each side last opened the thread, for unread counts
+  ownerReadAt?: string
+  tenantReadAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Message {
+  id: number
+  conversationId: number
+  senderId: number
+  senderName: string
+  body: string
+  createdAt: string
+}
+
+// A conversation as seen by one participant
+export interface ConversationSummary extends Conversation {
+  role: "owner" | "tenant"
+  unread: number
+}
+
+export type ContactMethod = "call" | "email"
+
+// How often tenants reached out about a listing, shown to its owner
+export interface ContactStats {
+  calls: number
+  emails: number
+  recent: { tenantName: string; method: ContactMethod; createdAt: string }[]
+}
+
+export type ReviewModerationAction = "hide" | "restore"
+
+// A reported or hidden review in the moderation queue, with every report made against it
+export interface FlaggedReview extends Review {
+  roomId: number
+  roomTitle: string
+  hidden: boolean
+  flags: { userName: string; reason: string; createdAt: string; resolved: boolean }[]
+}
+
+// Stable URLs for an uploaded listing photo
+export interface UploadedImage {
+  url: string
+  thumbnailUrl: string
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import sharp from "sharp"
+
+import { HttpError } from "@/lib/http"
+import { isImageKey, uploadUrl, type ImageVariant } from "@/lib/images"
+import type { UploadedImage } from "@/lib/types"
+
+export const MAX_UPLOAD_BYTES = 8 * 1024 * 1024
+export const MAX_FILES_PER_UPLOAD = 10
+
+const acceptedTypes = ["image/jpeg", "image/png", "image/webp", "image/avif"]
+// Formats as reported by sharp after decoding, so a renamed file can't slip through
+const acceptedFormats = ["jpeg", "png", "webp", "heif"]
+
+// Cards show the thumbnail; the detail gallery shows the full-size variant
+const variants = {
+  thumb: { width: 640, height: 480, fit: "cover" as const, quality: 75 },
+  full: { width: 1920, height: 1440, fit: "inside" as const, quality: 85 },
+}
+
+// Where processed images live. The local store writes to disk; another store can be plugged in with setImageStore.
+export interface ImageStore {
+  put(key: string, data: Buffer): Promise<void>
+  get(key: string): Promise<Buffer | null>
+}
+
+export function localImageStore(dir: string): ImageStore {
+  return {
+    async put(key, data) {
+      await fs.mkdir(dir, { recursive: true })
+      await fs.writeFile(path.join(dir, key), data)
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(path.join(dir, key))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+        throw error
+      }
+    },
+  }
+}
+
+// UPLOAD_DIR overrides the default of an uploads folder next to the data store
+function createStore(): ImageStore {
+  const dataDir = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+  return localImageStore(process.env.UPLOAD_DIR || path.join(dataDir, "uploads"))
+}
+
+let store: ImageStore | null = null
+
+export function setImageStore(imageStore: ImageStore) {
+  store = imageStore
+}
+
+function imageStore() {
+  store ??= createStore()
+  return store
+}
+
+// Keys are generated by saveImage; anything else is rejected before touching the store
+export function readImage(key: string) {
+  return isImageKey(key) ? imageStore().get(key) : Promise.resolve(null)
+}
+
+async function decode(file: File) {
+  if (!acceptedTypes.includes(file.type)) {
+    throw new HttpError(`${file.name} isn't a supported image. Use JPEG, PNG, WebP or AVIF.`, 415)
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new HttpError(`${file.name} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 413)
+  }
+
+  const input = Buffer.from(await file.arrayBuffer())
+  const metadata = await sharp(input)
+    .metadata()
+    .catch(() => null)
+  if (!metadata?.format || !acceptedFormats.includes(metadata.format)) {
+    throw new HttpError(`${file.name} couldn't be read as an image`, 415)
+  }
+  return input
+}
+
+// Renders every variant of the file; a truncated or corrupt image only fails here, once sharp reads the pixels
+async function render(file: File) {
+  const input = await decode(file)
+  const outputs: [ImageVariant, Buffer][] = []
+
+  for (const [name, { width, height, fit, quality }] of Object.entries(variants)) {
+    try {
+      // rotate() applies the EXIF orientation before the metadata is stripped
+      const output = await sharp(input)
+        .rotate()
+        .resize({ width, height, fit, withoutEnlargement: true })
+        .webp({ quality })
+        .toBuffer()
+      outputs.push([name as ImageVariant, output])
+    } catch {
+      throw new HttpError(`${file.name} couldn't be read as an image`, 415)
+    }
+  }
+
+  return outputs
+}
+
+// Processes every file before storing any, so a bad file doesn't leave half an upload behind
+export async function saveImages(files: File[]): Promise<UploadedImage[]> {
+  if (!files.length) throw new HttpError("Please choose at least one image", 400)
+  if (files.length > MAX_FILES_PER_UPLOAD) {
+    throw new HttpError(`You can upload at most ${MAX_FILES_PER_UPLOAD} images at a time`, 400)
+  }
+
+  // Rendered one after another rather than all at once to keep sharp's memory use down
+  const rendered: [ImageVariant, Buffer][][] = []
+  for (const file of files) rendered.push(await render(file))
+
+  const uploaded: UploadedImage[] = []
+  for (const outputs of rendered) {
+    const id = randomUUID()
+    for (const [variant, output] of outputs) {
+      await imageStore().put(`${id}-${variant}.webp`, output)
+    }
+    uploaded.push({ url: uploadUrl(id, "full"), thumbnailUrl: uploadUrl(id, "thumb") })
+  }
+
+  return uploaded
+}
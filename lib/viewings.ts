@@ -0,0 +1,166 @@
+import {
+  defaultAvailability,
+  isOfferedSlot,
+  isWithinHorizon,
+  openSlots,
+  type Availability,
+  type DaySlots,
+} from "@/lib/availability"
+import { parsePhone } from "@/lib/auth"
+import { readDb, updateDb, type Database } from "@/lib/db"
+import { HttpError } from "@/lib/http"
+import { assertListed, findOwner } from "@/lib/rooms"
+import type { User, Viewing, ViewingAction, ViewingStatus } from "@/lib/types"
+
+export interface ViewingRequest {
+  roomId: number
+  date: string
+  time: string
+  phone?: string
+  message?: string
+}
+
+const MAX_MESSAGE_LENGTH = 2000
+
+// Statuses that still hold the slot
+const activeStatuses: ViewingStatus[] = ["pending", "confirmed", "rescheduled"]
+
+export function isValidSlot(date: string, time: string) {
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(date) &&
+    /^\d{2}:\d{2}$/.test(time) &&
+    !Number.isNaN(Date.parse(`${date}T${time}`))
+  )
+}
+
+function bookedSlots(db: Database, roomId: number) {
+  return db.viewings.filter((viewing) => viewing.roomId === roomId && activeStatuses.includes(viewing.status))
+}
+
+function assertSlotFree(db: Database, roomId: number, date: string, time: string, ignoreId?: number) {
+  const taken = bookedSlots(db, roomId).some(
+    (viewing) => viewing.id !== ignoreId && viewing.date === date && viewing.time === time,
+  )
+  if (taken) throw new HttpError("This viewing slot is already booked. Please pick another time.", 409)
+}
+
+function assertFutureSlot(date: string, time: string) {
+  if (!isValidSlot(date, time)) throw new HttpError("Please choose a valid date and time", 400)
+  if (new Date(`${date}T${time}`) <= new Date()) throw new HttpError("Viewings must be booked in the future", 400)
+}
+
+// A slot the owner offers, on a date tenants can currently book
+function isBookableSlot(availability: Availability | undefined, date: string, time: string) {
+  return isOfferedSlot(availability ?? defaultAvailability, date, time) && isWithinHorizon(date)
+}
+
+export async function listViewings(user: User, role: "owner" | "tenant"): Promise<Viewing[]> {
+  const db = await readDb()
+  const viewings = db.viewings.filter((viewing) =>
+    role === "owner" ? viewing.ownerId === user.id : viewing.tenantId === user.id,
+  )
+  return viewings.sort((a, b) => `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`))
+}
+
+// Slots a tenant can still book on the given room
+export async function listOpenSlots(roomId: number): Promise<DaySlots[]> {
+  const db = await readDb()
+  const room = db.rooms.find((r) => r.id === roomId)
+  if (!room) throw new HttpError("Room not found", 404)
+
+  return openSlots(room.availability ?? defaultAvailability, bookedSlots(db, roomId))
+}
+
+export function requestViewing(user: User, request: ViewingRequest): Promise<Viewing> {
+  assertFutureSlot(request.date, request.time)
+  const phone = parsePhone(request.phone)
+  const message = request.message?.trim() || undefined
+  if (message && message.length > MAX_MESSAGE_LENGTH) {
+    throw new HttpError(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`, 400)
+  }
+
+  return updateDb((db) => {
+    const room = db.rooms.find((r) => r.id === request.roomId)
+    const owner = room && findOwner(db, room)
+    if (!room || !owner) throw new HttpError("Room not found", 404)
+    if (owner.id === user.id) throw new HttpError("You can't book a viewing of your own listing", 400)
+    assertListed(room)
+
+    if (!isBookableSlot(room.availability, request.date, request.time)) {
+      throw new HttpError("The owner isn't available at that time. Please pick one of the open slots.", 400)
+    }
+    assertSlotFree(db, room.id, request.date, request.time)
+
+    const now = new Date().toISOString()
+    const viewing: Viewing = {
+      id: db.viewings.reduce((max, v) => Math.max(max, v.id), 0) + 1,
+      roomId: room.id,
+      roomTitle: room.title,
+      ownerId: owner.id,
+      tenantId: user.id,
+      tenantName: user.name,
+      tenantEmail: user.email,
+      phone,
+      message,
+      date: request.date,
+      time: request.time,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    }
+    db.viewings.push(viewing)
+    return viewing
+  })
+}
+
+export function updateViewing(
+  user: User,
+  id: number,
+  action: ViewingAction,
+  slot?: { date: string; time: string },
+): Promise<Viewing> {
+  return updateDb((db) => {
+    const viewing = db.viewings.find((v) => v.id === id)
+    if (!viewing) throw new HttpError("Viewing not found", 404)
+
+    const isOwner = viewing.ownerId === user.id
+    const isTenant = viewing.tenantId === user.id
+    if (!isOwner && !isTenant) throw new HttpError("You can't change this viewing", 403)
+    if (!activeStatuses.includes(viewing.status)) {
+      throw new HttpError(`This viewing has already been ${viewing.status}`, 409)
+    }
+
+    switch (action) {
+      case "confirm":
+      case "decline":
+        if (!isOwner) throw new HttpError("Only the owner can respond to a viewing request", 403)
+        viewing.status = action === "confirm" ? "confirmed" : "declined"
+        break
+      case "reschedule": {
+        if (!isOwner) throw new HttpError("Only the owner can reschedule a viewing", 403)
+        if (!slot) throw new HttpError("Please choose a new date and time", 400)
+        assertFutureSlot(slot.date, slot.time)
+
+        const room = db.rooms.find((r) => r.id === viewing.roomId)
+        if (!room) throw new HttpError("Room not found", 404)
+        if (!isBookableSlot(room.availability, slot.date, slot.time)) {
+          throw new HttpError("That time isn't one of your open viewing slots. Please pick an open slot.", 400)
+        }
+        assertSlotFree(db, room.id, slot.date, slot.time, viewing.id)
+
+        viewing.date = slot.date
+        viewing.time = slot.time
+        viewing.status = "rescheduled"
+        break
+      }
+      case "cancel":
+        viewing.status = "cancelled"
+        break
+      default:
+        throw new HttpError("Unknown action", 400)
+    }
+
+    viewing.updatedAt = new Date().toISOString()
+    return viewing
+  })
+}
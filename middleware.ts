@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+// Must match SESSION_COOKIE in lib/auth.ts; that module is Node-only so it isn't imported here
+const SESSION_COOKIE = "session"
+
+// Pages that need a logged-in user
+const protectedPaths = ["/dashboard", "/room", "/messages", "/moderation"]
+
+// Pages a logged-in user has no reason to see
+const guestOnlyPaths = ["/", "/login"]
+
+function matches(pathname: string, path: string) {
+  return pathname === path || pathname.startsWith(`${path}/`)
+}
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  // Only checks that a session cookie exists; the API routes validate it against the store
+  const hasSession = request.cookies.has(SESSION_COOKIE)
+
+  if (!hasSession && protectedPaths.some((path) => matches(pathname, path))) {
+    const loginUrl = new URL("/login", request.url)
+    loginUrl.searchParams.set("next", `${pathname}${search}`)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  if (hasSession && guestOnlyPaths.includes(pathname)) {
+    return NextResponse.redirect(new URL("/dashboard", request.url))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ["/", "/login", "/dashboard/:path*", "/room/:path*", "/messages/:path*", "/moderation/:path*"],
+}